@@ -0,0 +1,308 @@
+// netlify/functions/feed-webhook.ts
+// Real-time Discover feed: receives Helius enhanced-transaction webhooks for the registry
+// wallet and appends posts, likes and tips to a key-value store (Netlify Blobs).
+//
+//   POST [ EnhancedTx, … ]   Authorization: <FEED_WEBHOOK_SECRET>   → { added, tips, rejected }
+//   GET                      → LiveFeed (what the Discover feed reads)
+//
+// Parsing follows the feed indexer (scripts/indexer) so the live and static feeds agree:
+// - memos: posts / likes / owner mod actions in any memoproto.ts version, on transactions that
+//   touch the registry;
+//   invalid ones are dropped; a like's tipLamports is the SOL its `to` (author) received in the
+//   same transaction
+// - spam policy (src/components/feedpolicy.ts): authors must be the fee payer, plus the ping,
+//   blocklist, host allowlist and per-author rate limit (counted over the stored items); mod
+//   actions only from the owner (stored as items, the client applies them)
+// - tips: the leaderboard rule (src/components/tipevents.ts), with the tippers among the stored
+//   tips counting as earlier tippers for refunds
+// Failed transactions are skipped. Redelivered transactions are ignored (recent signatures
+// are remembered), and concurrent deliveries retry on an ETag conflict instead of overwriting.
+//
+// createFeedWebhookHandler() takes the store as a dependency, so the handler can be driven
+// locally (netlify dev with its local Blobs sandbox, or a plain node session with memoryFeedStore()).
+// scripts/send-webhook.mjs replays the fixtures in scripts/fixtures/helius against it.
+
+import { connectLambda, getStore } from "@netlify/blobs";
+import { createHash, timingSafeEqual } from "node:crypto";
+import bs58 from "bs58";
+import { Buffer } from "buffer";
+import { CONFIG } from "../../src/components/config";
+import { checkPayload, FEED_POLICY, rateLimited } from "../../src/components/feedpolicy";
+import type { FeedPolicy, RateState } from "../../src/components/feedpolicy";
+import { tipEventsOf } from "../../src/components/tipevents";
+import type { TipEvent, TipTx } from "../../src/components/tipevents";
+import { decodeFeedMemo } from "../../src/components/memoproto";
+import type { FunctionEvent, FunctionResponse } from "./tip-tx";
+
+// Fields of a Helius enhanced transaction this handler reads
+export type EnhancedTx = {
+  signature: string;
+  slot: number;
+  timestamp: number; // unix seconds
+  feePayer: string;
+  transactionError?: unknown;
+  instructions?: Array<{ programId: string; data: string; accounts?: string[] }>;
+  accountData?: Array<{ account: string; nativeBalanceChange: number }>;
+};
+
+// Same shape as the items in public/feed/pages/*.json
+export type FeedEvent = Record<string, unknown> & {
+  type: "post" | "like" | "mod";
+  sig: string;
+  slot: number;
+  ts: number;
+  tipLamports?: number;
+};
+
+export type LiveFeed = {
+  v: 1;
+  updated: number; // ms
+  items: FeedEvent[]; // oldest first, like the static pages; the newest LIVE_MAX are kept
+  tips: TipEvent[]; // last RECENT_S seconds
+  seen: string[]; // recently processed signatures (redelivery guard)
+};
+
+export type FeedStore = {
+  read(): Promise<{ feed: LiveFeed; etag?: string } | null>;
+  /** false → the entry changed since `etag` was read (or already exists when `etag` is absent). */
+  write(feed: LiveFeed, etag?: string): Promise<boolean>;
+};
+
+export type FeedWebhookDeps = {
+  store: () => FeedStore;
+  secret: string;
+  registry: string;
+  owner: string;
+  policy: FeedPolicy;
+};
+
+const MEMO_PROGRAM = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+const LIVE_MAX = 500; // the batch job moves older history into the static pages
+const SEEN_MAX = 2_000;
+const RECENT_S = 35 * 24 * 3600; // same window as leaderboard.json's `recent`
+const WRITE_TRIES = 5;
+const STORE_KEY = "live";
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Content-Type": "application/json",
+};
+
+const json = (statusCode: number, body: unknown, headers: Record<string, string> = {}): FunctionResponse => ({
+  statusCode,
+  headers: { ...CORS, ...headers },
+  body: JSON.stringify(body),
+});
+
+const emptyFeed = (): LiveFeed => ({ v: 1, updated: 0, items: [], tips: [], seen: [] });
+
+// -------------------- stores --------------------
+export function blobFeedStore(): FeedStore {
+  const store = getStore({ name: "feed", consistency: "strong" });
+  return {
+    async read() {
+      const hit = await store.getWithMetadata(STORE_KEY, { type: "json" });
+      return hit ? { feed: hit.data as LiveFeed, etag: hit.etag } : null;
+    },
+    async write(feed, etag) {
+      const res = await store.setJSON(STORE_KEY, feed, etag ? { onlyIfMatch: etag } : { onlyIfNew: true });
+      return res.modified;
+    },
+  };
+}
+
+/** In-process store for node sessions; same conflict semantics as Blobs. */
+export function memoryFeedStore(): FeedStore {
+  let cur: { feed: LiveFeed; etag: string } | null = null;
+  let n = 0;
+  return {
+    async read() {
+      return cur && { feed: structuredClone(cur.feed), etag: cur.etag };
+    },
+    async write(feed, etag) {
+      if (etag ? cur?.etag !== etag : cur) return false;
+      cur = { feed: structuredClone(feed), etag: String(++n) };
+      return true;
+    },
+  };
+}
+
+// -------------------- auth --------------------
+// Helius sends the webhook's configured auth header value verbatim in Authorization
+export function authorized(header: string | undefined, secret: string): boolean {
+  if (!secret || !header) return false;
+  const digest = (s: string) => createHash("sha256").update(s).digest(); // equal lengths for timingSafeEqual
+  return timingSafeEqual(digest(header), digest(secret));
+}
+
+function header(event: FunctionEvent, name: string): string | undefined {
+  const h = event.headers || {};
+  const key = Object.keys(h).find((k) => k.toLowerCase() === name);
+  return key ? h[key] : undefined;
+}
+
+// -------------------- parsing (pure) --------------------
+function memoText(data: string): string | null {
+  try {
+    return Buffer.from(bs58.decode(data)).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+function nativeDelta(tx: EnhancedTx, account: string): number {
+  return (tx.accountData || [])
+    .filter((a) => a.account === account)
+    .reduce((sum, a) => sum + (a.nativeBalanceChange || 0), 0);
+}
+
+/** Post / like / mod events of one transaction and the reasons for what was dropped (indexer rules). */
+export function feedEventsOf(
+  tx: EnhancedTx,
+  rules: Pick<FeedWebhookDeps, "registry" | "owner" | "policy">
+): { events: FeedEvent[]; rejected: string[] } {
+  const { registry, policy } = rules;
+  const events: FeedEvent[] = [];
+  const rejected: string[] = [];
+  if (tx.transactionError) return { events, rejected };
+  const touches = (tx.accountData || []).some((a) => a.account === registry);
+  if (!touches) return { events, rejected };
+
+  const facts = { feePayer: tx.feePayer, registry, moderator: rules.owner, ping: nativeDelta(tx, registry) };
+  for (const ix of tx.instructions || []) {
+    if (ix.programId !== MEMO_PROGRAM) continue;
+    const memo = memoText(ix.data);
+    if (!memo) continue;
+    const parsed = decodeFeedMemo(memo, { feePayer: tx.feePayer });
+    if (!parsed) continue; // not a feed memo
+    if (!parsed.ok) {
+      rejected.push(parsed.reason);
+      continue;
+    }
+    const p = parsed.value;
+    const reason = checkPayload(p, facts, policy);
+    if (reason) {
+      rejected.push(reason);
+      continue;
+    }
+
+    const ev: FeedEvent = { type: p.t, ...p, sig: tx.signature, slot: tx.slot, ts: tx.timestamp || 0 };
+    if (p.t === "like" && p.to) {
+      const d = nativeDelta(tx, p.to);
+      if (d > 0) ev.tipLamports = d;
+    }
+    events.push(ev);
+  }
+  return { events, rejected };
+}
+
+function tipTxOf(tx: EnhancedTx): TipTx {
+  const instructions = (tx.instructions || []).map((ix) => ({ ...ix, accounts: ix.accounts || [] }));
+  return { sig: tx.signature, ts: tx.timestamp || 0, failed: !!tx.transactionError, instructions };
+}
+
+/** New feed state with `txs` applied; already-seen signatures are skipped. */
+export function applyTransactions(
+  feed: LiveFeed,
+  txs: EnhancedTx[],
+  deps: Pick<FeedWebhookDeps, "registry" | "owner" | "policy">,
+  now = Date.now()
+): { feed: LiveFeed; added: number; tips: number; rejected: number } {
+  const seen = new Set(feed.seen);
+  const fresh = txs.filter((tx) => tx?.signature && !seen.has(tx.signature)).sort((a, b) => a.slot - b.slot);
+
+  // rate limit: the stored posts fill the window, new posts count against it in slot order
+  const rate: RateState = {};
+  for (const it of feed.items) {
+    if (it.type === "post") rateLimited(rate, String(it.author), it.ts, deps.policy);
+  }
+  let rejected = 0;
+  const items = fresh.flatMap((tx) => {
+    const parsed = feedEventsOf(tx, deps);
+    const kept = parsed.events.filter((ev) => ev.type !== "post" || !rateLimited(rate, String(ev.author), ev.ts, deps.policy));
+    rejected += parsed.rejected.length + parsed.events.length - kept.length;
+    return kept;
+  });
+  const tipped = new Set(feed.tips.filter((t) => t.lamports > 0).map((t) => t.from));
+  const tips = fresh.flatMap((tx) => tipEventsOf(tipTxOf(tx), deps.owner, tipped));
+  const cutoff = Math.floor(now / 1000) - RECENT_S;
+
+  return {
+    feed: {
+      v: 1,
+      updated: now,
+      items: [...feed.items, ...items].sort((a, b) => a.slot - b.slot).slice(-LIVE_MAX),
+      tips: [...feed.tips, ...tips].filter((t) => t.ts >= cutoff).sort((a, b) => b.ts - a.ts),
+      seen: [...feed.seen, ...fresh.map((tx) => tx.signature)].slice(-SEEN_MAX),
+    },
+    added: items.length,
+    tips: tips.length,
+    rejected,
+  };
+}
+
+// -------------------- handler --------------------
+function readBody(event: FunctionEvent): EnhancedTx[] | null {
+  try {
+    const raw = event.isBase64Encoded ? Buffer.from(event.body || "", "base64").toString("utf8") : event.body || "";
+    const body = JSON.parse(raw);
+    return Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createFeedWebhookHandler(deps: FeedWebhookDeps) {
+  return async (event: FunctionEvent): Promise<FunctionResponse> => {
+    if (event.httpMethod === "OPTIONS") return { statusCode: 204, headers: CORS, body: "" };
+
+    if (event.httpMethod === "GET") {
+      try {
+        const cur = await deps.store().read();
+        const { seen, ...feed } = cur?.feed ?? emptyFeed();
+        return json(200, feed, { "Cache-Control": "public, max-age=15" });
+      } catch (e) {
+        console.warn("[feed-webhook] read failed:", e);
+        return json(503, { message: "Feed store unavailable" });
+      }
+    }
+
+    if (event.httpMethod !== "POST") return json(405, { message: "Method not allowed" });
+    if (!deps.secret) return json(500, { message: "Webhook secret not configured" });
+    if (!authorized(header(event, "authorization"), deps.secret)) return json(401, { message: "Unauthorized" });
+
+    const txs = readBody(event);
+    if (!txs) return json(400, { message: "Expected an array of enhanced transactions" });
+
+    const store = deps.store();
+    for (let i = 0; i < WRITE_TRIES; i++) {
+      try {
+        const cur = await store.read();
+        const next = applyTransactions(cur?.feed ?? emptyFeed(), txs, deps);
+        const result = { added: next.added, tips: next.tips, rejected: next.rejected };
+        if (!next.added && !next.tips && cur) return json(200, result);
+        if (await store.write(next.feed, cur?.etag)) return json(200, result);
+      } catch (e) {
+        // 5xx → Helius retries the delivery later
+        console.warn("[feed-webhook] store failed:", e);
+        return json(503, { message: "Feed store unavailable" });
+      }
+    }
+    return json(503, { message: "Feed store busy, retry" });
+  };
+}
+
+const handleFeedWebhook = createFeedWebhookHandler({
+  store: blobFeedStore,
+  secret: process.env.FEED_WEBHOOK_SECRET || "",
+  registry: process.env.REGISTRY || CONFIG.TIP_DEST_SOL,
+  owner: process.env.OWNER || CONFIG.TIP_DEST_SOL,
+  policy: FEED_POLICY,
+});
+
+export const handler = (event: FunctionEvent) => {
+  connectLambda(event as any); // Blobs credentials ride along on Lambda-style events
+  return handleFeedWebhook(event);
+};
@@ -0,0 +1,140 @@
+// netlify/functions/tip-tx.ts
+// Solana Pay Transaction Request endpoint for tips (richer than transfer-request links:
+// memos, SPL tokens and ATA creation are built server-side).
+//
+//   GET                → { label, icon }
+//   POST { account }   → { transaction: base64 unsigned v0 tx, message }
+//   query: amount, token (symbol or mint; default SOL), handle, message, reference, cluster,
+//          to (base58 recipient for ?to= / #/name tip pages; default: the configured tip jar),
+//          split=1 (share the tip with the configured collaborators; ignored with `to`)
+//
+// The transaction comes from buildTipTransaction() — the same builder sendTip() uses.
+// createTipTxHandler() takes the RPC as a dependency, so the handler can be driven
+// locally (netlify dev, or a plain node session) against a mocked Connection.
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { CONFIG } from "../../src/components/config";
+import type { Cluster } from "../../src/components/config";
+import { SOL_TOKEN, findTipToken } from "../../src/components/tokens";
+import { formatTipMemo } from "../../src/components/memoproto";
+import { buildTipTransaction } from "../../src/components/tiptx";
+import type { TipRpc, TipSplit } from "../../src/components/tiptx";
+
+export type FunctionEvent = {
+  httpMethod: string;
+  queryStringParameters?: Record<string, string | undefined> | null;
+  headers?: Record<string, string | undefined>;
+  body?: string | null;
+  isBase64Encoded?: boolean;
+};
+
+export type FunctionResponse = {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: string;
+};
+
+export type TipTxDeps = {
+  rpc: (cluster: Cluster) => TipRpc;
+  recipient: string;
+  splits?: TipSplit[];
+  label: string;
+  icon: string;
+};
+
+// Wallets call this cross-origin
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+  "Content-Type": "application/json",
+};
+
+const json = (statusCode: number, body: unknown): FunctionResponse => ({
+  statusCode,
+  headers: CORS,
+  body: JSON.stringify(body),
+});
+
+function readAccount(event: FunctionEvent): PublicKey | null {
+  try {
+    const raw = event.isBase64Encoded
+      ? Buffer.from(event.body || "", "base64").toString("utf8")
+      : event.body || "";
+    return new PublicKey(JSON.parse(raw).account);
+  } catch {
+    return null;
+  }
+}
+
+export function createTipTxHandler(deps: TipTxDeps) {
+  return async (event: FunctionEvent): Promise<FunctionResponse> => {
+    if (event.httpMethod === "OPTIONS") return { statusCode: 204, headers: CORS, body: "" };
+    if (event.httpMethod === "GET") return json(200, { label: deps.label, icon: deps.icon });
+    if (event.httpMethod !== "POST") return json(405, { message: "Method not allowed" });
+
+    const q = event.queryStringParameters || {};
+    const cluster: Cluster = q.cluster === "devnet" || q.cluster === "mainnet" ? q.cluster : CONFIG.DEFAULT_CLUSTER;
+
+    const account = readAccount(event);
+    if (!account) return json(400, { message: "Invalid account" });
+
+    const amount = Number(q.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return json(400, { message: "Invalid amount" });
+
+    const token = q.token ? findTipToken(cluster, q.token) : SOL_TOKEN;
+    if (!token) return json(400, { message: "Unsupported token" });
+
+    // .sol names are resolved client-side; only a plain address crosses the wire
+    let recipient: PublicKey;
+    try {
+      recipient = new PublicKey(q.to || deps.recipient);
+    } catch {
+      return json(400, { message: "Invalid recipient" });
+    }
+
+    let reference: string | undefined;
+    if (q.reference) {
+      try {
+        reference = new PublicKey(q.reference).toBase58();
+      } catch {
+        return json(400, { message: "Invalid reference" });
+      }
+    }
+
+    try {
+      const { tx } = await buildTipTransaction(deps.rpc(cluster), {
+        payer: account,
+        recipient,
+        amount,
+        token,
+        memo: formatTipMemo(q.handle, q.message),
+        reference,
+        splits: q.split === "1" && !q.to ? deps.splits : undefined,
+      });
+      return json(200, {
+        transaction: Buffer.from(tx.serialize()).toString("base64"),
+        message: `Tip ${amount} ${token.symbol} to ${q.to ? `${q.to.slice(0, 4)}…${q.to.slice(-4)}` : deps.label}`,
+      });
+    } catch (e: any) {
+      // builder errors are user-facing ("No USDC balance in this wallet.")
+      console.warn("[tip-tx] build failed:", e);
+      return json(400, { message: String(e?.message || "Could not build transaction") });
+    }
+  };
+}
+
+/** TIP_TX_RPC_URL overrides mainnet only, TIP_TX_RPC_URL_DEVNET devnet (a devnet tx needs a devnet blockhash). */
+export const rpcFor = (cluster: Cluster, env: Record<string, string | undefined> = process.env) =>
+  (cluster === "devnet" ? env.TIP_TX_RPC_URL_DEVNET : env.TIP_TX_RPC_URL) ||
+  (cluster === "devnet" ? CONFIG.DEVNET_RPCS : CONFIG.MAINNET_RPCS)[0] ||
+  (cluster === "devnet" ? "https://api.devnet.solana.com" : "https://api.mainnet-beta.solana.com");
+
+export const handler = createTipTxHandler({
+  rpc: (cluster) => new Connection(rpcFor(cluster), "confirmed"),
+  recipient: CONFIG.TIP_DEST_SOL,
+  splits: CONFIG.TIP_SPLITS,
+  label: CONFIG.OWNER_SOL_DOMAIN || "Tip Jar",
+  icon: process.env.TIP_TX_ICON || `${process.env.URL || ""}/vite.svg`,
+});
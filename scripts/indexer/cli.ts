@@ -0,0 +1,120 @@
+// scripts/indexer/cli.ts
+// Discover feed indexer (replaces scripts/build-feed.mjs): registry memos → public/feed pages,
+// plus the tipper leaderboard when --owner is set.
+//
+//   npm run index:feed -- --registry <base58> [--owner <base58>] [options]
+//
+//   --rpc <url>        RPC endpoint (env RPC_URL; else HELIUS=<key> → Helius mainnet)
+//   --registry <addr>  registry wallet (env REGISTRY)
+//   --owner <addr>     tip wallet → also builds leaderboard.json (env OWNER)
+//   --cluster <name>   mainnet | devnet, recorded in leaderboard.json (default mainnet)
+//   --out <dir>        output directory (default public/feed)
+//   --state <file>     state file (default <out>/state.json)
+//   --max-tx <n>       getTransaction calls per step and run (default 500); the rest waits
+//   --dry-run          fetch and parse, print the report, write nothing
+//   --fixtures <dir>   replay recorded RPC responses instead of a live endpoint (offline)
+//   --record <dir>     save every RPC response to <dir> in the --fixtures layout
+//
+// Re-running after a crash or a --max-tx stop continues from the saved cursors.
+// Spam policy: VITE_FEED_MIN_PING, VITE_FEED_RATE_LIMIT, VITE_FEED_BLOCKLIST and
+// VITE_FEED_ALLOWED_HOSTS, the same env the app reads (config.ts); decisions → moderation.json.
+// Mod actions (hide / block) count when --owner paid for them (the registry without --owner).
+
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { FEED_POLICY } from "../../src/components/feedpolicy";
+import { isPubkey } from "../../src/components/memoproto";
+import { migrateFeedState, runFeed } from "./feed";
+import type { IndexFile, StepContext } from "./feed";
+import { initialLeaderboardState, runLeaderboard } from "./leaderboard";
+import { fixtureRpc, httpRpc, recordingRpc } from "./rpc";
+import type { IndexerRpc } from "./rpc";
+import { loadState, readJson, writeJsonAtomic } from "./state";
+
+const { values: args } = parseArgs({
+  options: {
+    rpc: { type: "string" },
+    registry: { type: "string" },
+    owner: { type: "string" },
+    cluster: { type: "string", default: "mainnet" },
+    out: { type: "string", default: "public/feed" },
+    state: { type: "string" },
+    "max-tx": { type: "string", default: "500" },
+    "dry-run": { type: "boolean", default: false },
+    fixtures: { type: "string" },
+    record: { type: "string" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`indexer: ${message} (see --help)`);
+  process.exit(1);
+}
+
+function endpoint(): IndexerRpc {
+  if (args.fixtures) return fixtureRpc(args.fixtures);
+  const url =
+    args.rpc ||
+    process.env.RPC_URL ||
+    (process.env.HELIUS ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS}` : "");
+  if (!url) fail("no RPC: pass --rpc, or set RPC_URL / HELIUS");
+  const rpc = httpRpc(url);
+  return args.record ? recordingRpc(rpc, args.record) : rpc;
+}
+
+async function main() {
+  if (args.help) {
+    console.log("Usage: npm run index:feed -- --registry <base58> [--owner <base58>] [--rpc <url>] [--dry-run] …");
+    console.log("Options are documented at the top of scripts/indexer/cli.ts.");
+    return;
+  }
+
+  const registry = args.registry || process.env.REGISTRY || "";
+  const owner = args.owner || process.env.OWNER || "";
+  const cluster = args.cluster;
+  const maxTx = Number(args["max-tx"]);
+  if (!isPubkey(registry)) fail("--registry must be a base58 address");
+  if (owner && !isPubkey(owner)) fail("--owner must be a base58 address");
+  if (cluster !== "mainnet" && cluster !== "devnet") fail("--cluster must be mainnet or devnet");
+  if (!Number.isSafeInteger(maxTx) || maxTx <= 0) fail("--max-tx must be a positive integer");
+
+  const out = args.out;
+  const statePath = args.state || path.join(out, "state.json");
+  const dryRun = args["dry-run"];
+  const state = loadState(statePath, registry);
+
+  const ctx: StepContext = {
+    rpc: endpoint(),
+    out,
+    maxTx,
+    write: (file, data) => {
+      if (!dryRun) writeJsonAtomic(file, data);
+    },
+    checkpoint: () => {
+      if (!dryRun) writeJsonAtomic(statePath, state);
+    },
+  };
+
+  // 1) feed
+  if (!state.feed) {
+    const index = readJson<IndexFile>(path.join(out, "index.json"));
+    state.feed = index?.cursor ? migrateFeedState(out, index) : { cursor: null, tally: {} };
+  }
+  const feed = await runFeed(ctx, { registry, moderator: owner || registry, policy: FEED_POLICY }, state.feed);
+  console.log(dryRun ? "feed (dry run) →" : "feed updated →", feed);
+
+  // 2) leaderboard
+  if (owner) {
+    state.leaderboard = initialLeaderboardState(owner, state.leaderboard);
+    const lb = await runLeaderboard(ctx, state.leaderboard, cluster);
+    console.log(dryRun ? "leaderboard (dry run) →" : "leaderboard updated →", lb);
+  }
+
+  ctx.checkpoint();
+}
+
+main().catch((e) => {
+  console.error("indexer failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+// scripts/indexer/feed.ts
+// Feed step: registry memos → public/feed/index.json + pages/page-NNNN.json (the layout
+// loadFeedSnapshot() in discover.ts reads).
+// - Signatures are processed oldest first, from the state cursor; --max-tx caps one run and
+//   the next run continues (no gap, unlike the old newest-first scan)
+// - Like tallies (by cid) are kept in the state file and bumped per event instead of
+//   re-reading every page; posts on the page being written carry the current tallies
+// - Pages are written before the cursor moves. If a run dies in between, the re-run finds
+//   those signatures already on the page: it tallies them again (the saved tally doesn't
+//   have them) but doesn't append them, or their mod actions in moderation.json, twice
+// - Spam policy (feedpolicy.ts): rejected memos never reach the pages; each decision goes to
+//   moderation.json (counts by reason + the latest LOG_MAX), the rate-limit window to the state
+// - Owner mod actions don't touch the pages either: the resulting hidden posts / blocked authors
+//   go to index.json (`moderation`) and readers filter, so every action can be undone
+
+import path from "node:path";
+import type { FeedIndex } from "../../src/components/discover";
+import { applyMod, emptyModState, pruneRateState, rateLimited } from "../../src/components/feedpolicy";
+import type { ModerationLog } from "../../src/components/feedpolicy";
+import { feedEventsOf } from "./memo";
+import type { FeedEvent, FeedRules } from "./memo";
+import { signaturesSince } from "./rpc";
+import type { IndexerRpc } from "./rpc";
+import { readJson } from "./state";
+import type { FeedState, Tally } from "./state";
+
+export const PAGE_SIZE = 200;
+const CHUNK = 25; // transactions between checkpoints
+const LOG_MAX = 200; // moderation.json decisions kept
+
+export type IndexFile = FeedIndex & { cursor: string | null };
+
+export type StepContext = {
+  rpc: IndexerRpc;
+  out: string; // public/feed
+  maxTx: number;
+  write: (file: string, data: unknown) => void; // no-op in dry-run
+  checkpoint: () => void; // persists the state file (no-op in dry-run)
+};
+
+export type FeedReport = {
+  processed: number;
+  remaining: number;
+  posts: number;
+  likes: number;
+  mods: number;
+  rejected: Record<string, number>;
+  latestPage: number;
+  cursor: string | null;
+};
+
+const pageName = (n: number) => `page-${String(n).padStart(4, "0")}.json`;
+
+function readItems(out: string, n: number): FeedEvent[] {
+  return readJson<{ items?: FeedEvent[] }>(path.join(out, "pages", pageName(n)))?.items || [];
+}
+
+function bump(tally: Record<string, Tally>, ev: FeedEvent) {
+  if (ev.type !== "like" || !ev.cid) return;
+  const t = (tally[ev.cid] ||= { likes: 0, tipLamports: 0 });
+  t.likes += 1;
+  t.tipLamports += ev.tipLamports || 0;
+}
+
+function decorate(items: FeedEvent[], tally: Record<string, Tally>): FeedEvent[] {
+  return items.map((it) => {
+    if (it.type !== "post" || !it.cid) return it;
+    const t = tally[it.cid] || { likes: 0, tipLamports: 0 };
+    return { ...it, likes: t.likes, tipLamports: t.tipLamports };
+  });
+}
+
+/** State from a tree last written by build-feed.mjs: its cursor + one full tally pass. */
+export function migrateFeedState(out: string, index: IndexFile): FeedState {
+  const tally: Record<string, Tally> = {};
+  for (let n = 1; n <= (index.latestPage || 0); n++) readItems(out, n).forEach((ev) => bump(tally, ev));
+  return { cursor: index.cursor, tally };
+}
+
+export async function runFeed(ctx: StepContext, rules: FeedRules, state: FeedState): Promise<FeedReport> {
+  const { registry, policy } = rules;
+  const indexPath = path.join(ctx.out, "index.json");
+  const index: IndexFile = {
+    updated: 0,
+    latestPage: 1,
+    pageSize: PAGE_SIZE,
+    pages: [],
+    cursor: null,
+    ...readJson<Partial<IndexFile>>(indexPath),
+  };
+  let pageNum = index.latestPage || 1;
+  let items = readItems(ctx.out, pageNum);
+  // signatures a crashed run may already have appended (current page, or the one it rolled over)
+  const onPage = new Set([...items, ...(pageNum > 1 ? readItems(ctx.out, pageNum - 1) : [])].map((it) => it.sig));
+
+  const sigs = await signaturesSince(ctx.rpc, registry, state.cursor);
+  const todo = sigs.slice(0, ctx.maxTx);
+  const report: FeedReport = {
+    processed: 0,
+    remaining: sigs.length - todo.length,
+    posts: 0,
+    likes: 0,
+    mods: 0,
+    rejected: {},
+    latestPage: pageNum,
+    cursor: state.cursor,
+  };
+
+  const rate = (state.rate ||= {});
+  const log = (state.moderation ||= { counts: {}, recent: [], actions: [] });
+  log.actions ||= []; // state written before mod actions existed
+  const mods = (state.mods ||= emptyModState());
+  const actionKey = (a: { sig: string; act: string; target: string }) => `${a.sig}:${a.act}:${a.target}`;
+  const logged = new Set(log.actions.map(actionKey));
+  const reject = (sig: string, ts: number, reason: string) => {
+    report.rejected[reason] = (report.rejected[reason] || 0) + 1;
+    log.counts[reason] = (log.counts[reason] || 0) + 1;
+    log.recent.unshift({ sig, ts, reason });
+  };
+
+  const writePage = (n: number, list: FeedEvent[]) =>
+    ctx.write(path.join(ctx.out, "pages", pageName(n)), { n, items: decorate(list, state.tally) });
+  const flush = () => {
+    writePage(pageNum, items);
+    Object.assign(index, { latestPage: pageNum, pageSize: PAGE_SIZE, updated: Date.now(), cursor: state.cursor, moderation: mods });
+    ctx.write(indexPath, index);
+    const file: ModerationLog = { v: 1, updated: Date.now(), policy, ...log };
+    ctx.write(path.join(ctx.out, "moderation.json"), file);
+  };
+
+  for (let i = 0; i < todo.length; i += CHUNK) {
+    const chunk = todo.slice(i, i + CHUNK);
+    for (const s of chunk) {
+      const tx = s.err ? null : await ctx.rpc.transaction(s.signature);
+      report.processed++;
+      if (!tx) continue;
+
+      const { events, rejected } = feedEventsOf(tx, s, rules);
+      for (const r of rejected) reject(s.signature, tx.blockTime || 0, r);
+      const replay = onPage.has(s.signature);
+      for (const ev of events) {
+        if (ev.type === "mod") {
+          applyMod(mods, ev, ev.slot);
+          const action = { sig: ev.sig, ts: ev.ts, act: ev.act, target: ev.post || ev.w!, ...(ev.why ? { why: ev.why } : {}) };
+          if (!logged.has(actionKey(action))) log.actions.unshift(action); // replayed after a crash
+          logged.add(actionKey(action));
+          report.mods++;
+          continue;
+        }
+        if (ev.type === "post" && rateLimited(rate, ev.author, ev.ts, policy)) {
+          reject(s.signature, ev.ts, "post: rate limited");
+          continue;
+        }
+        bump(state.tally, ev);
+        report[ev.type === "post" ? "posts" : "likes"]++;
+        if (replay) continue;
+        items.push(ev);
+        if (items.length >= PAGE_SIZE) {
+          writePage(pageNum, items);
+          index.pages = index.pages
+            .filter((p) => p.n !== pageNum)
+            .concat([{ n: pageNum, path: `/feed/pages/${pageName(pageNum)}`, fromSig: items[0]?.sig, toSig: items.at(-1)?.sig }]);
+          pageNum += 1;
+          items = [];
+        }
+      }
+    }
+
+    // pages first, then the cursor (see the header)
+    state.cursor = chunk[chunk.length - 1].signature;
+    mods.slot = Math.max(mods.slot, ...chunk.map((c) => c.slot));
+    log.recent = log.recent.slice(0, LOG_MAX);
+    log.actions = log.actions.slice(0, LOG_MAX);
+    pruneRateState(rate, Math.max(0, ...chunk.map((c) => c.blockTime || 0)), policy);
+    flush();
+    ctx.checkpoint();
+  }
+  if (!todo.length) flush(); // nothing new: still stamp `updated` (and create the files on a fresh tree)
+
+  report.latestPage = pageNum;
+  report.cursor = state.cursor;
+  return report;
+}
@@ -0,0 +1,88 @@
+// scripts/indexer/leaderboard.ts
+// Leaderboard step (--owner): the owner's inbound SOL → public/feed/leaderboard.json, the
+// StaticLeaderboard that src/components/leaderboard.ts reads. Same rule as the client and the
+// webhook (src/components/tipevents.ts), with every wallet in the saved totals counting as an
+// earlier tipper for refunds. Totals and the last 35 days of events live in the state file;
+// leaderboard.json only carries what the client needs.
+
+import path from "node:path";
+import type { StaticLeaderboard } from "../../src/components/leaderboard";
+import { tipEventsOf, tipTxOf } from "../../src/components/tipevents";
+import type { TipEvent } from "../../src/components/tipevents";
+import type { StepContext } from "./feed";
+import { accountKeys, signaturesSince } from "./rpc";
+import type { LeaderboardState, TipperTotals } from "./state";
+
+const RECENT_S = 35 * 24 * 3600;
+const TOP = 100;
+const CHUNK = 25;
+
+export type LeaderboardReport = { processed: number; remaining: number; events: number; tippers: number };
+
+export function addEvent(totals: Record<string, TipperTotals>, ev: TipEvent) {
+  const t = totals[ev.from] || [0, 0, 0, ev.ts, ev.ts];
+  if (ev.lamports > 0) {
+    t[0] += ev.lamports;
+    t[2] += 1;
+    t[3] = t[2] === 1 ? ev.ts : Math.min(t[3], ev.ts);
+    t[4] = Math.max(t[4], ev.ts);
+  } else {
+    t[1] -= ev.lamports;
+  }
+  totals[ev.from] = t;
+}
+
+export function toStatic(state: LeaderboardState, cluster: StaticLeaderboard["cluster"], now = Date.now()): StaticLeaderboard {
+  const cutoff = Math.floor(now / 1000) - RECENT_S;
+  return {
+    v: 1,
+    updated: now,
+    owner: state.owner,
+    cluster,
+    allTime: Object.entries(state.totals)
+      .filter(([, t]) => t[2] > 0) // refunds to wallets that never tipped don't count
+      .map(([address, t]) => ({ address, lamports: Math.max(0, t[0] - t[1]), tips: t[2], first: t[3], last: t[4] }))
+      .filter((e) => e.lamports > 0)
+      .sort((a, b) => b.lamports - a.lamports || a.first - b.first || a.address.localeCompare(b.address))
+      .slice(0, TOP),
+    recent: state.recent.filter((ev) => ev.ts >= cutoff).sort((a, b) => b.ts - a.ts),
+  };
+}
+
+/** State for `owner`: the saved one, or a fresh recount (another owner's totals don't carry over). */
+export function initialLeaderboardState(owner: string, saved: LeaderboardState | null): LeaderboardState {
+  return saved?.owner === owner ? saved : { owner, cursor: null, totals: {}, recent: [] };
+}
+
+export async function runLeaderboard(
+  ctx: StepContext,
+  state: LeaderboardState,
+  cluster: StaticLeaderboard["cluster"]
+): Promise<LeaderboardReport> {
+  const sigs = await signaturesSince(ctx.rpc, state.owner, state.cursor);
+  const todo = sigs.slice(0, ctx.maxTx);
+  const report: LeaderboardReport = { processed: 0, remaining: sigs.length - todo.length, events: 0, tippers: 0 };
+  const cutoff = Math.floor(Date.now() / 1000) - RECENT_S;
+  const tipped = new Set(Object.keys(state.totals).filter((k) => state.totals[k][2] > 0));
+
+  for (let i = 0; i < todo.length; i += CHUNK) {
+    const chunk = todo.slice(i, i + CHUNK);
+    for (const s of chunk) {
+      const tx = s.err ? null : await ctx.rpc.transaction(s.signature);
+      report.processed++;
+      for (const ev of tx ? tipEventsOf(tipTxOf(tx, accountKeys(tx), s.signature), state.owner, tipped) : []) {
+        addEvent(state.totals, ev);
+        if (ev.ts >= cutoff) state.recent.push(ev);
+        report.events++;
+      }
+    }
+    state.cursor = chunk[chunk.length - 1].signature;
+    state.recent = state.recent.filter((ev) => ev.ts >= cutoff);
+    ctx.checkpoint();
+  }
+
+  const board = toStatic(state, cluster);
+  ctx.write(path.join(ctx.out, "leaderboard.json"), board);
+  report.tippers = board.allTime.length;
+  return report;
+}
@@ -0,0 +1,65 @@
+// scripts/indexer/memo.ts
+// Registry memos → feed events. Decoding and schema validation (every protocol version, legacy
+// id-only likes) live in src/components/memoproto.ts, shared with the client and the webhook.
+// - Memos that aren't feed payloads are someone else's and are skipped silently
+// - Ours with a bad shape are rejected with a reason (reported by the CLI, never written)
+// - Events are stored in the v1 shape whatever version the memo was written in
+// - Failed transactions are skipped
+// - Authenticity + spam rules (feedpolicy.ts) reject the rest; rate limits need history and are
+//   applied by the feed step, like mod actions (only the owner's count)
+
+import type { FeedPage } from "../../src/components/discover";
+import { checkPayload } from "../../src/components/feedpolicy";
+import type { FeedPolicy } from "../../src/components/feedpolicy";
+import { decodeFeedMemo } from "../../src/components/memoproto";
+import { accountKeys, lamportDelta, memosOf } from "./rpc";
+import type { RawTx, SignatureInfo } from "./rpc";
+
+export type FeedEvent = FeedPage["items"][number];
+
+export type FeedRules = {
+  registry: string;
+  moderator: string; // fee payer whose mod actions count (the owner)
+  policy: FeedPolicy;
+};
+
+// -------------------- events --------------------
+export function feedEventsOf(
+  tx: RawTx,
+  s: SignatureInfo,
+  rules: FeedRules
+): { events: FeedEvent[]; rejected: string[] } {
+  const events: FeedEvent[] = [];
+  const rejected: string[] = [];
+  if (tx.meta?.err) return { events, rejected };
+
+  const keys = accountKeys(tx);
+  const r = keys.indexOf(rules.registry);
+  const facts = { feePayer: keys[0], registry: rules.registry, moderator: rules.moderator, ping: r < 0 ? 0 : lamportDelta(tx, r) };
+  const base = { sig: s.signature, slot: s.slot, ts: tx.blockTime || 0 };
+  for (const memo of memosOf(tx)) {
+    const parsed = decodeFeedMemo(memo, { feePayer: keys[0] });
+    if (!parsed) continue;
+    if (!parsed.ok) {
+      rejected.push(parsed.reason);
+      continue;
+    }
+    const p = parsed.value;
+    const reason = checkPayload(p, facts, rules.policy);
+    if (reason) {
+      rejected.push(reason);
+      continue;
+    }
+    if (p.t === "post" || p.t === "mod") {
+      events.push(p.t === "post" ? { type: "post", ...p, ...base } : { type: "mod", ...p, ...base });
+      continue;
+    }
+    // tip size: what the liked author received in the same transaction
+    const ev: FeedEvent = { type: "like", ...p, ...base };
+    const i = p.to ? keys.indexOf(p.to) : -1;
+    const d = i < 0 ? 0 : lamportDelta(tx, i);
+    if (d > 0) ev.tipLamports = d;
+    events.push(ev);
+  }
+  return { events, rejected };
+}
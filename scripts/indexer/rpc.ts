@@ -0,0 +1,195 @@
+// scripts/indexer/rpc.ts
+// The two RPC reads the indexer needs, over plain JSON-RPC (no web3.js object mapping), so a
+// response can be saved to disk and replayed byte for byte:
+// - httpRpc: any endpoint URL; one request at a time with a minimum gap, retries 429 / 5xx
+//   with backoff (Retry-After honored)
+// - fixtureRpc: replays a recorded directory (signatures/<address>.json, transactions/<sig>.json)
+// - recordingRpc: wraps another RPC and writes what it returns in that layout
+
+import fs from "node:fs";
+import path from "node:path";
+import bs58 from "bs58";
+
+export type RawInstruction = { programIdIndex: number; accounts: number[]; data: string };
+
+// getTransaction(sig, { encoding: "json", maxSupportedTransactionVersion: 0 }) result
+export type RawTx = {
+  slot: number;
+  blockTime: number | null;
+  meta: {
+    err: unknown;
+    preBalances: number[];
+    postBalances: number[];
+    loadedAddresses?: { writable: string[]; readonly: string[] };
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: { accountKeys: string[]; instructions: RawInstruction[] };
+  };
+};
+
+export type SignatureInfo = { signature: string; slot: number; err: unknown; blockTime?: number | null };
+
+export type SignatureOpts = { before?: string; until?: string; limit: number };
+
+export type IndexerRpc = {
+  signatures(address: string, opts: SignatureOpts): Promise<SignatureInfo[]>;
+  transaction(sig: string): Promise<RawTx | null>;
+};
+
+export const MEMO_PROGRAM = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+const SIG_PAGE = 1_000; // getSignaturesForAddress max
+
+export class RpcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// -------------------- tx helpers --------------------
+export function accountKeys(tx: RawTx): string[] {
+  const loaded = tx.meta?.loadedAddresses || { writable: [], readonly: [] };
+  return [...tx.transaction.message.accountKeys, ...loaded.writable, ...loaded.readonly];
+}
+
+export function lamportDelta(tx: RawTx, index: number): number {
+  return (tx.meta?.postBalances[index] ?? 0) - (tx.meta?.preBalances[index] ?? 0);
+}
+
+/** UTF-8 text of every top-level memo instruction (data is base58 in "json" encoding). */
+export function memosOf(tx: RawTx): string[] {
+  const keys = accountKeys(tx);
+  const out: string[] = [];
+  for (const ix of tx.transaction.message.instructions) {
+    if (keys[ix.programIdIndex] !== MEMO_PROGRAM) continue;
+    try {
+      out.push(Buffer.from(bs58.decode(ix.data)).toString("utf8"));
+    } catch {
+      /* not base58 → not a memo we wrote */
+    }
+  }
+  return out;
+}
+
+/**
+ * Every signature newer than `cursor` (all of history when null), oldest first. Signature
+ * pages are cheap; callers cap the getTransaction work instead, so nothing is ever skipped.
+ */
+export async function signaturesSince(rpc: IndexerRpc, address: string, cursor: string | null): Promise<SignatureInfo[]> {
+  const out: SignatureInfo[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await rpc.signatures(address, { before, until: cursor ?? undefined, limit: SIG_PAGE });
+    out.push(...page);
+    if (page.length < SIG_PAGE) break;
+    before = page[page.length - 1].signature;
+  }
+  return out.reverse();
+}
+
+// -------------------- HTTP --------------------
+export function httpRpc(url: string, opts: { minGapMs?: number; retries?: number } = {}): IndexerRpc {
+  const minGap = opts.minGapMs ?? 120;
+  const retries = opts.retries ?? 5;
+  let last = 0;
+  let id = 0;
+
+  async function call<T>(method: string, params: unknown[]): Promise<T> {
+    let delay = 1_000;
+    for (let attempt = 0; ; attempt++) {
+      const wait = last + minGap - Date.now();
+      if (wait > 0) await sleep(wait);
+      last = Date.now();
+
+      let retryAfter = 0;
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", id: ++id, method, params }),
+        });
+        if (res.ok) {
+          const body = (await res.json()) as { result?: T; error?: { code: number; message: string } };
+          if (!body.error) return body.result as T;
+          // -32005/-32429: provider-side rate limits reported in the body
+          if (![-32005, -32429].includes(body.error.code)) throw new RpcError(`${method}: ${body.error.message}`);
+        } else if (res.status !== 429 && res.status < 500) {
+          throw new RpcError(`${method}: HTTP ${res.status}`);
+        }
+        retryAfter = Number(res.headers.get("retry-after")) * 1000 || 0;
+      } catch (e) {
+        if (e instanceof RpcError || attempt >= retries) throw e;
+      }
+      if (attempt >= retries) throw new RpcError(`${method}: gave up after ${retries + 1} tries`);
+      await sleep(Math.max(retryAfter, delay));
+      delay = Math.min(delay * 2, 30_000);
+    }
+  }
+
+  return {
+    signatures: (address, o) => call("getSignaturesForAddress", [address, { ...o, commitment: "confirmed" }]),
+    transaction: (sig) =>
+      call("getTransaction", [sig, { encoding: "json", commitment: "confirmed", maxSupportedTransactionVersion: 0 }]),
+  };
+}
+
+// -------------------- fixtures --------------------
+const sigFile = (dir: string, address: string) => path.join(dir, "signatures", `${address}.json`);
+const txFile = (dir: string, sig: string) => path.join(dir, "transactions", `${sig}.json`);
+
+function readJson<T>(file: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return fallback;
+  }
+}
+
+/** Same paging semantics as the RPC: newest first, `before` / `until` exclusive. */
+export function pageSignatures(all: SignatureInfo[], o: SignatureOpts): SignatureInfo[] {
+  let list = [...all].sort((a, b) => b.slot - a.slot);
+  if (o.before) {
+    const i = list.findIndex((s) => s.signature === o.before);
+    list = i < 0 ? [] : list.slice(i + 1);
+  }
+  if (o.until) {
+    const i = list.findIndex((s) => s.signature === o.until);
+    if (i >= 0) list = list.slice(0, i);
+  }
+  return list.slice(0, o.limit);
+}
+
+export function fixtureRpc(dir: string): IndexerRpc {
+  return {
+    async signatures(address, o) {
+      return pageSignatures(readJson<SignatureInfo[]>(sigFile(dir, address), []), o);
+    },
+    async transaction(sig) {
+      return readJson<RawTx | null>(txFile(dir, sig), null);
+    },
+  };
+}
+
+export function recordingRpc(inner: IndexerRpc, dir: string): IndexerRpc {
+  const write = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 2) + "\n");
+  };
+  return {
+    async signatures(address, o) {
+      const page = await inner.signatures(address, o);
+      const known = readJson<SignatureInfo[]>(sigFile(dir, address), []);
+      const merged = new Map([...known, ...page].map((s) => [s.signature, s]));
+      write(sigFile(dir, address), [...merged.values()].sort((a, b) => b.slot - a.slot));
+      return page;
+    },
+    async transaction(sig) {
+      const tx = await inner.transaction(sig);
+      if (tx) write(txFile(dir, sig), tx);
+      return tx;
+    },
+  };
+}
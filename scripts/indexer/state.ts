@@ -0,0 +1,61 @@
+// scripts/indexer/state.ts
+// Indexer state file: cursors + incremental tallies, so a run only touches new signatures.
+// Written atomically (tmp file + rename) after every chunk of transactions: a crash loses at
+// most the chunk in flight, and the next run resumes from the last saved cursor.
+
+import fs from "node:fs";
+import path from "node:path";
+import type { ModerationLog, ModState, RateState } from "../../src/components/feedpolicy";
+import type { TipEvent } from "../../src/components/tipevents";
+
+export type Tally = { likes: number; tipLamports: number };
+
+export type FeedState = {
+  cursor: string | null; // newest registry signature whose events are in the pages + tally
+  tally: Record<string, Tally>; // by post cid
+  rate?: RateState; // per-author rate limit window
+  moderation?: Pick<ModerationLog, "counts" | "recent" | "actions">; // → moderation.json
+  mods?: ModState; // owner hide / block actions → index.json
+};
+
+// [tipped, refunded, tips, first, last] lamports / count / unix seconds
+export type TipperTotals = [number, number, number, number, number];
+
+export type LeaderboardState = {
+  owner: string;
+  cursor: string | null;
+  totals: Record<string, TipperTotals>;
+  recent: TipEvent[];
+};
+
+export type IndexerState = {
+  v: 1;
+  registry: string;
+  feed: FeedState | null; // null → never ran; migrated from the old build-feed.mjs output
+  leaderboard: LeaderboardState | null;
+};
+
+export function readJson<T>(file: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export function writeJsonAtomic(file: string, data: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data));
+  fs.renameSync(tmp, file);
+}
+
+export function loadState(file: string, registry: string): IndexerState {
+  const s = readJson<IndexerState>(file);
+  if (!s) return { v: 1, registry, feed: null, leaderboard: null };
+  if (s.v !== 1) throw new Error(`${file}: unsupported state version ${s.v}`);
+  if (s.registry !== registry) {
+    throw new Error(`${file} belongs to registry ${s.registry}; pass another --state or delete it`);
+  }
+  return s;
+}
@@ -0,0 +1,46 @@
+// Stand-in for Helius: POSTs enhanced-transaction fixtures to the feed webhook, then reads the feed back.
+// Usage: node scripts/send-webhook.mjs [fixture.json ...]   (default: every file in scripts/fixtures/helius)
+// Env: WEBHOOK_URL (default http://localhost:8888/api/feed, i.e. `netlify dev`), FEED_WEBHOOK_SECRET
+// Flags: --wrong-secret (expect 401), --keep-time (send the fixtures' own timestamps)
+//
+// The fixtures use one address as registry and owner; start the function with it:
+//   REGISTRY=AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9 OWNER=AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9 \
+//   FEED_WEBHOOK_SECRET=dev-secret netlify dev
+// Expected: post.json adds 1 post, like.json 1 like, tips.json a tip and a refund, ignored.json
+// nothing (failed tx, tx that doesn't touch the registry). The post's ping and the like's owner
+// fee are not tips, as on the leaderboard.
+// Sending the same file twice adds nothing the second time.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const URL_ = process.env.WEBHOOK_URL || 'http://localhost:8888/api/feed';
+const SECRET = process.env.FEED_WEBHOOK_SECRET || 'dev-secret';
+const FIXTURES = 'scripts/fixtures/helius';
+
+const args = process.argv.slice(2);
+const flags = new Set(args.filter(a => a.startsWith('--')));
+let files = args.filter(a => !a.startsWith('--'));
+if (!files.length) files = (await fs.readdir(FIXTURES)).filter(f => f.endsWith('.json')).sort().map(f => path.join(FIXTURES, f));
+
+// Fixtures carry fixed timestamps; shift them to "now" so the 35-day tip window keeps them
+const all = await Promise.all(files.map(async f => [f, JSON.parse(await fs.readFile(f, 'utf8'))]));
+const newest = Math.max(...all.flatMap(([, txs]) => txs.map(t => t.timestamp || 0)));
+const shift = flags.has('--keep-time') ? 0 : Math.floor(Date.now() / 1000) - newest;
+
+for (const [file, txs] of all) {
+  const body = txs.map(t => ({ ...t, timestamp: (t.timestamp || 0) + shift }));
+  const res = await fetch(URL_, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: flags.has('--wrong-secret') ? `${SECRET}-wrong` : SECRET },
+    body: JSON.stringify(body),
+  });
+  console.log(`${path.basename(file)} → ${res.status}`, await res.text());
+}
+
+const feed = await (await fetch(URL_)).json();
+console.log('feed →', {
+  posts: feed.items?.filter(i => i.type === 'post').length,
+  likes: feed.items?.filter(i => i.type === 'like').length,
+  tips: feed.tips?.length,
+  updated: feed.updated ? new Date(feed.updated).toISOString() : null,
+});
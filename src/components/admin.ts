@@ -0,0 +1,240 @@
+// src/components/admin.ts
+// Moderation panel for the owner wallet (CONFIG.OWNER_WALLET); the button only shows while that
+// wallet is connected. Actions are t:"mod" memos the owner signs (publishModeration() in
+// discover.ts), so there's no server or key involved: the indexer and the live-feed webhook
+// accept them only from the owner, and visiblePosts() in discover.ts applies them.
+// - Recent posts come from the same snapshot Discover reads, hidden / blocked ones included
+// - Hide / Unhide a post, Block / Unblock its author, with an optional reason for the log
+// - Log: feed/moderation.json (mod actions + spam policy decisions) plus this session's actions,
+//   which the feed only picks up once they're indexed
+
+import { CONFIG } from "./config";
+import { loadFeedSnapshot, publishModeration } from "./discover";
+import type { FeedItemPost } from "./discover";
+import { applyMod, emptyModState, isModerated } from "./feedpolicy";
+import type { ModerationLog, ModState } from "./feedpolicy";
+import type { ModAction, ModPayload } from "./memoproto";
+import { closeModal, openModal } from "./modal";
+import { explorerTxUrl } from "./solana";
+import { getWallet, onWalletChange } from "./wallet";
+
+type LogEntry = ModerationLog["actions"][number];
+
+const BACKDROP_ID = "mod-panel-backdrop";
+const OPEN_ID = "mod-panel-open";
+const LOG_PATH = "feed/moderation.json";
+const POSTS_SHOWN = 50;
+const REJECTIONS_SHOWN = 20;
+
+let posts: FeedItemPost[] = [];
+let mods: ModState = emptyModState();
+let log: ModerationLog | null = null;
+let pending: LogEntry[] = []; // published this session, newest first
+let loaded = false;
+let busy = false;
+
+// -------------------- data --------------------
+const isOwner = () => getWallet()?.publicKey?.toBase58() === CONFIG.OWNER_WALLET;
+
+async function loadLog(): Promise<ModerationLog | null> {
+  const base = ((import.meta as any).env?.BASE_URL || "/").replace(/\/?$/, "/");
+  try {
+    const res = await fetch(base + LOG_PATH, { cache: "no-cache" });
+    const ct = res.headers.get("content-type") || "";
+    return res.ok && ct.includes("json") ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+async function load() {
+  busy = true;
+  render();
+  try {
+    const [snap, file] = await Promise.all([loadFeedSnapshot(), loadLog()]);
+    posts = snap.posts.slice(0, POSTS_SHOWN);
+    mods = snap.mods;
+    log = file;
+    // session actions the snapshot doesn't include yet (oldest first)
+    for (const e of [...pending].reverse()) applyMod(mods, toPayload(e), mods.slot);
+    loaded = true;
+  } catch (e) {
+    console.warn("[Admin] load failed:", e);
+  } finally {
+    busy = false;
+  }
+  render();
+}
+
+function toPayload(e: Pick<LogEntry, "act" | "target" | "why">): ModPayload {
+  const p: ModPayload = { v: 1, t: "mod", act: e.act };
+  if (e.act === "hide" || e.act === "unhide") p.post = e.target;
+  else p.w = e.target;
+  if (e.why) p.why = e.why;
+  return p;
+}
+
+async function act(act: ModAction, target: string) {
+  if (busy) return;
+  const why = (document.getElementById("mod-why") as HTMLInputElement).value.trim() || undefined;
+  const payload = toPayload({ act, target, why });
+  busy = true;
+  render();
+  try {
+    const sig = await publishModeration(payload);
+    pending.unshift({ sig, ts: Math.floor(Date.now() / 1000), act, target, ...(why ? { why } : {}) });
+    applyMod(mods, payload, mods.slot);
+    (document.getElementById("mod-why") as HTMLInputElement).value = "";
+  } catch (e) {
+    console.warn("[Admin] moderation failed:", e); // toasts come from publishModeration
+  } finally {
+    busy = false;
+  }
+  render();
+}
+
+// -------------------- UI --------------------
+function escapeHtml(s?: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
+const short = (a: string) => `${a.slice(0, 4)}…${a.slice(-4)}`;
+const when = (ts: number) => (ts ? new Date(ts * 1000).toLocaleString() : "—");
+
+function ensureBackdrop(): HTMLElement {
+  let el = document.getElementById(BACKDROP_ID);
+  if (el) return el;
+  el = document.createElement("div");
+  el.id = BACKDROP_ID;
+  el.className = "hidden fixed inset-0 z-50 bg-black/60 p-4 overflow-y-auto";
+  el.innerHTML = `
+    <div class="glass max-w-3xl mx-auto mt-10 rounded-2xl p-5 relative">
+      <button id="mod-close" class="absolute right-3 top-3 text-white/70 hover:text-white focus-glow">✕</button>
+      <h3 class="text-lg font-semibold mb-1">🛡️ Moderation</h3>
+      <p class="text-[11px] text-white/50 mb-3">Each action is a memo signed by the owner wallet; the feed applies it once it's indexed.</p>
+      <label class="grid gap-1 text-[11px] text-white/60 mb-3">Reason (optional, public)
+        <input id="mod-why" maxlength="280" class="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs focus-glow" />
+      </label>
+      <div id="mod-status" class="text-[11px] text-white/50 mb-2" aria-live="polite"></div>
+      <div id="mod-posts" class="max-h-[45vh] overflow-y-auto rounded-lg border border-white/10 mb-4"></div>
+      <h4 class="text-sm font-semibold mb-2">Log</h4>
+      <div id="mod-log" class="max-h-[30vh] overflow-y-auto rounded-lg border border-white/10 text-xs"></div>
+    </div>`;
+  document.body.appendChild(el);
+
+  el.addEventListener("click", (e) => {
+    if (e.target === el) closeAdminPanel();
+  });
+  document.getElementById("mod-close")!.onclick = closeAdminPanel;
+  el.addEventListener("click", (e) => {
+    const b = (e.target as HTMLElement).closest<HTMLButtonElement>("button[data-act]");
+    if (b) void act(b.dataset.act as ModAction, b.dataset.target || "");
+  });
+  return el;
+}
+
+function renderPosts(): string {
+  if (!posts.length) return `<div class="px-2 py-3 text-center text-white/60">${busy ? "Loading…" : "No posts yet."}</div>`;
+  const btn = "px-2 py-1 rounded bg-white/10 border border-white/10 text-[11px] hover:bg-white/15 disabled:opacity-50";
+  const badge = "px-1.5 py-0.5 rounded bg-red-500/20 text-red-200 text-[10px]";
+  return posts
+    .map((it) => {
+      const hidden = mods.hidden.includes(it.sig);
+      const blocked = mods.blocked.includes(it.author);
+      return `<div class="flex items-center gap-2 px-2 py-1.5 border-t border-white/5 first:border-t-0 ${isModerated(mods, it) ? "opacity-60" : ""}">
+        <div class="min-w-0 flex-1">
+          <div class="truncate">
+            <a class="underline decoration-white/20" href="${explorerTxUrl(it.sig)}" target="_blank" rel="noopener">${escapeHtml(it.cap || it.k || it.url)}</a>
+            ${hidden ? `<span class="${badge}">Hidden</span>` : ""}
+            ${blocked ? `<span class="${badge}">Blocked</span>` : ""}
+          </div>
+          <div class="text-[11px] text-white/50"><span class="font-mono" title="${escapeHtml(it.author)}">${short(it.author)}</span> · ${when(it.ts)}</div>
+        </div>
+        <button class="${btn}" data-act="${hidden ? "unhide" : "hide"}" data-target="${escapeHtml(it.sig)}" ${busy ? "disabled" : ""}>${hidden ? "Unhide" : "Hide"}</button>
+        <button class="${btn}" data-act="${blocked ? "unblock" : "block"}" data-target="${escapeHtml(it.author)}" ${busy ? "disabled" : ""}>${blocked ? "Unblock" : "Block author"}</button>
+      </div>`;
+    })
+    .join("");
+}
+
+function renderLog(): string {
+  const indexed = new Set((log?.actions || []).map((e) => e.sig));
+  const actions = [...pending.filter((e) => !indexed.has(e.sig)).map((e) => ({ ...e, pending: true })), ...(log?.actions || [])];
+  const rows = actions.map(
+    (e) => `<tr class="border-t border-white/5">
+      <td class="px-2 py-1 whitespace-nowrap"><a class="underline decoration-white/20" href="${explorerTxUrl(e.sig)}" target="_blank" rel="noopener">${when(e.ts)}</a></td>
+      <td class="px-2 py-1">${escapeHtml(e.act)}${"pending" in e ? ` <span class="text-white/40">(not indexed yet)</span>` : ""}</td>
+      <td class="px-2 py-1 font-mono" title="${escapeHtml(e.target)}">${short(e.target)}</td>
+      <td class="px-2 py-1 break-all text-white/70">${escapeHtml(e.why)}</td>
+    </tr>`
+  );
+  const counts = Object.entries(log?.counts || {})
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, n]) => `${escapeHtml(reason)}: <b>${n}</b>`)
+    .join(" · ");
+  const rejected = (log?.recent || []).slice(0, REJECTIONS_SHOWN).map(
+    (r) => `<li><a class="underline decoration-white/20" href="${explorerTxUrl(r.sig)}" target="_blank" rel="noopener">${when(r.ts)}</a> ${escapeHtml(r.reason)}</li>`
+  );
+  return `
+    <table class="w-full">
+      <thead class="text-white/60 text-left sticky top-0 bg-black/60">
+        <tr><th class="px-2 py-1">Time</th><th class="px-2 py-1">Action</th><th class="px-2 py-1">Target</th><th class="px-2 py-1">Reason</th></tr>
+      </thead>
+      <tbody>${rows.join("") || `<tr><td colspan="4" class="px-2 py-3 text-center text-white/60">No mod actions yet.</td></tr>`}</tbody>
+    </table>
+    <div class="px-2 py-2 border-t border-white/10 text-white/60">
+      <div class="mb-1">Spam policy: ${counts || (log ? "nothing rejected" : "moderation.json not available")}</div>
+      ${rejected.length ? `<ul class="grid gap-0.5">${rejected.join("")}</ul>` : ""}
+    </div>`;
+}
+
+function render() {
+  const list = document.getElementById("mod-posts");
+  if (!list) return;
+  list.innerHTML = renderPosts();
+  document.getElementById("mod-log")!.innerHTML = renderLog();
+  document.getElementById("mod-status")!.textContent = busy
+    ? "Working…"
+    : `${posts.length} recent posts · ${mods.hidden.length} hidden · ${mods.blocked.length} blocked authors`;
+}
+
+export function openAdminPanel() {
+  if (!isOwner()) return;
+  ensureBackdrop();
+  openModal(BACKDROP_ID);
+  render();
+  if (!loaded && !busy) void load();
+}
+
+export function closeAdminPanel() {
+  closeModal(BACKDROP_ID);
+}
+
+function reset() {
+  posts = [];
+  mods = emptyModState();
+  log = null;
+  pending = [];
+  loaded = false;
+  render();
+}
+
+export function initAdminPanel() {
+  const heading = document.querySelector("#discover h3");
+  if (heading && !document.getElementById(OPEN_ID)) {
+    const btn = document.createElement("button");
+    btn.id = OPEN_ID;
+    btn.type = "button";
+    btn.className = "hidden ml-2 px-2 py-0.5 rounded-md border border-white/15 bg-white/10 text-xs font-normal hover:bg-white/15 focus-glow";
+    btn.textContent = "🛡️ Moderation";
+    btn.onclick = openAdminPanel;
+    heading.appendChild(btn);
+  }
+  const sync = () => {
+    document.getElementById(OPEN_ID)?.classList.toggle("hidden", !isOwner());
+    if (!isOwner()) closeAdminPanel();
+  };
+  sync();
+  onWalletChange(sync);
+  window.addEventListener("stonky:clusterChanged", reset);
+}
@@ -7,9 +7,19 @@
 // - OWNER_WALLET: alias of TIP_DEST_SOL for modules that expect a generic owner pubkey
 // - PUBLISH_REGISTRY: on-chain registry address (pubkey) for Discover feed;
 //   falls back to OWNER_WALLET if not provided.
+// - TIP_TOKENS: extra SPL mints offered in the Tip Jar token selector.
+// - TX_REQUEST_URL: Solana Pay transaction-request endpoint (netlify/functions/tip-tx.ts).
+// - LIVE_FEED / RPC_WS: websocket subscriptions for the tip feed (polling fallback).
+// - TIP_SPLITS: collaborators who get a percentage of every tip in split mode.
+// - TIP_GOALS: fundraising goals with a progress bar driven by on-chain totals.
+// - FEED_*: Discover spam policy, shared by the client, the feed webhook and the feed indexer.
 
+// Also importable from Node (Netlify functions, scripts): no window there, so fall back to process.env.
 const env = (k: string, d = "") =>
-  (import.meta as any).env?.[k] ?? (window as any).__ENV__?.[k] ?? d;
+  (import.meta as any).env?.[k] ??
+  (typeof window !== "undefined" ? (window as any).__ENV__?.[k] : undefined) ??
+  (typeof process !== "undefined" ? process.env?.[k] : undefined) ??
+  d;
 
 const parseList = (s: string) =>
   (s || "")
@@ -55,6 +65,61 @@ MAINNET_RPCS: (() => {
   ];
 })(),
 
+  // Websocket endpoint for live tip updates, per cluster (a mainnet socket must not serve devnet);
+  // empty → derived from the active RPC (https → wss).
+  RPC_WS: {
+    mainnet: env("VITE_RPC_WS", ""),
+    devnet: env("VITE_RPC_WS_DEVNET", ""),
+  } as Record<Cluster, string>,
+
+  // Live tip feed over websockets ("0" → plain 60s polling)
+  LIVE_FEED: env("VITE_LIVE_FEED", "1") !== "0",
+
+  // Extra SPL tokens for the Tip Jar selector (SOL/USDC/USDT are built in).
+  // Comma-separated "SYMBOL:mint:decimals", e.g. VITE_TIP_TOKENS=BONK:DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263:5
+  TIP_TOKENS: parseList(env("VITE_TIP_TOKENS", ""))
+    .map((s) => {
+      const [symbol, mint, decimals] = s.split(":").map((x) => x.trim());
+      return { symbol, mint, decimals: Number(decimals) };
+    })
+    .filter((t) => t.symbol && t.mint && Number.isInteger(t.decimals) && t.decimals >= 0),
+
+  // Split mode: collaborators who get a share of each tip to the owner (the owner keeps the rest).
+  // Comma-separated "label:address:percent", e.g. VITE_TIP_SPLITS=Artist:<base58>:20,Editor:<base58>:10
+  TIP_SPLITS: parseList(env("VITE_TIP_SPLITS", ""))
+    .map((s) => {
+      const [label, address, percent] = s.split(":").map((x) => x.trim());
+      return { label, address, percent: Number(percent) };
+    })
+    .filter((s) => s.label && s.address && Number.isFinite(s.percent) && s.percent > 0 && s.percent <= 100),
+
+  // Fundraising goals shown above the Tip Jar: "title|target|token|start" (token: SOL or a tip token symbol),
+  // e.g. VITE_TIP_GOALS=New mic|5|SOL|2026-01-01,Server costs|200|USDC|2026-03-01
+  TIP_GOALS: parseList(env("VITE_TIP_GOALS", ""))
+    .map((s) => {
+      const [title, target, token, start] = s.split("|").map((x) => x.trim());
+      return { title, target: Number(target), token: token || "SOL", start: Date.parse(start) };
+    })
+    .filter((g) => g.title && Number.isFinite(g.target) && g.target > 0 && Number.isFinite(g.start)),
+
+  // Discover spam policy (feedpolicy.ts). The feed indexer and webhook read the same VITE_* names
+  // from process.env, so set them in the workflow / Netlify env too.
+  // Lamports a post must send to the registry (the publish flow's ping is 1).
+  FEED_MIN_PING: Math.max(0, Number(env("VITE_FEED_MIN_PING") || 1) || 0),
+  // Per-author rate limit "posts:minutes", e.g. 5:60 → at most 5 posts in any hour ("0:0" → none).
+  FEED_RATE_LIMIT: (() => {
+    const [max, minutes] = (env("VITE_FEED_RATE_LIMIT") || "5:60").split(":").map(Number);
+    return max > 0 && minutes > 0 ? { max, windowSecs: minutes * 60 } : null;
+  })(),
+  // Wallets whose posts and likes are dropped (comma-separated base58).
+  FEED_BLOCKLIST: parseList(env("VITE_FEED_BLOCKLIST", "")),
+  // Hosts a post's url may point at; subdomains match, "ipfs" allows ipfs:// urls ("" → any host).
+  // e.g. VITE_FEED_ALLOWED_HOSTS=memegen.link,w3s.link,ipfs
+  FEED_ALLOWED_HOSTS: parseList(env("VITE_FEED_ALLOWED_HOSTS", "")).map((h) => h.toLowerCase()),
+
+  // Solana Pay transaction-request endpoint; when set, QR codes encode solana:https://… links
+  // so mobile wallets get memos/SPL tokens built server-side. Relative paths resolve against the page.
+  TX_REQUEST_URL: env("VITE_TX_REQUEST_URL", ""),
 
   // Meme API key if you add one (optional)
   MEMEGEN_API_KEY: env("VITE_MEMEGEN_API_KEY", ""),
@@ -1,6 +1,7 @@
 // src/components/discover.ts
 // Discover feed via static JSON (Web2, free) + light on-chain deltas for likes.
 // Writes stay on-chain (Memo + tiny transfers). Compatible with Helius free tier.
+// RPC access goes through the shared endpoint manager (rpc.ts).
 
 import { CONFIG } from "./config";
 import {
@@ -12,6 +13,18 @@ import {
   LAMPORTS_PER_SOL,
 } from "@solana/web3.js";
 import { Buffer } from "buffer";
+import { getWallet } from "./wallet";
+import { getRpcConnection, withFailover } from "./rpc";
+import { getSignaturesCached, getTransactionCached } from "./rpccache";
+import { emitTxProgress } from "./txconfirm";
+import { prioritize } from "./fees";
+import type { FeeEstimate } from "./fees";
+import { reviewTransaction, TxPreviewError } from "./txpreview";
+import { applyMod, checkPayload, emptyModState, isModerated, listReason, rateLimited } from "./feedpolicy";
+import type { ModState, RateState, TxFacts } from "./feedpolicy";
+import { decodeFeedMemo, encodeFeedMemo, MemoError } from "./memoproto";
+import type { LikePayload, ModPayload, PostPayload } from "./memoproto";
+import { accountKeysOf, memosOf } from "./solana";
 
 // ---------- Debug ----------
 const DEBUG = (import.meta as any).env?.VITE_DEBUG === "1";
@@ -49,97 +62,23 @@ function ipfsToHttp(u: string) {
   if (u.startsWith("ipfs://")) return `https://w3s.link/ipfs/${u.slice("ipfs://".length)}`;
   return u;
 }
-function encodeMemo(obj: any) { return JSON.stringify(obj); }
-function tryParseJSON(s: string) { try { return JSON.parse(s); } catch { return null; } }
-
-// ---------- Endpoint pool (for confirm + likes delta only) ----------
-function corsFriendly(u: string) {
-  const l = u.toLowerCase();
-  if (l.includes("publicnode.com")) return false;
-  if (l.includes("solana.drpc.org")) return false;
-  if (l.includes("rpc.ankr.com/multichain")) return false;
-  return true;
-}
-function buildCandidateList(): string[] {
-  const { DEFAULT_CLUSTER, DEVNET_RPCS, MAINNET_RPCS } = CONFIG as any;
-  const base: string[] = (DEFAULT_CLUSTER === "devnet" ? DEVNET_RPCS : MAINNET_RPCS) || [];
-  const seen = new Set<string>();
-  const out = base.filter(Boolean).filter(corsFriendly).filter((u: string) => (seen.has(u) ? false : (seen.add(u), true)));
-  dbg("RPC candidates:", out);
-  return out;
-}
-function looksLikeHelius401(err: any, url?: string) {
-  const msg = String(err?.message || err || "");
-  return !!(url && url.includes("helius-rpc.com") && (msg.includes("401") || msg.includes("Unauthorized")));
-}
-
-type Ep = { url: string; cooldownUntil: number; failScore: number };
-const pool: Ep[] = buildCandidateList().map((url) => ({ url, cooldownUntil: 0, failScore: 0 }));
-let CACHED_CONN: Connection | null = null;
-let CACHED_URL: string | null = null;
-
-async function pickConn(): Promise<Connection> {
-  const now = Date.now();
-  if (CACHED_CONN && CACHED_URL) {
-    const ep = pool.find((p) => p.url === CACHED_URL);
-    if (ep && ep.cooldownUntil <= now) return CACHED_CONN;
-  }
-  const order = [...pool].sort((a, b) => (a.cooldownUntil - b.cooldownUntil) || (a.failScore - b.failScore));
-  for (const ep of order) {
-    if (ep.cooldownUntil > now) continue;
-    try {
-      const c = new Connection(ep.url, { commitment: "confirmed" });
-      dbg("Probing RPC:", ep.url);
-      await c.getLatestBlockhash("finalized");
-      CACHED_CONN = c;
-      CACHED_URL = ep.url;
-      info("Using RPC:", ep.url);
-      return c;
-    } catch (err) {
-      if (looksLikeHelius401(err, ep.url)) {
-        toast.error?.("Helius Unauthorized: add this site origin to the key's allowlist.");
-      }
-      ep.failScore += 1;
-      ep.cooldownUntil = now + Math.min(30_000, 3_000 * ep.failScore);
-      warn("RPC probe failed:", ep.url, "failScore:", ep.failScore, err);
-    }
-  }
-  throw new Error("No CORS-friendly RPC available");
-}
-
-// ---------- Payloads ----------
-type PostPayload = {
-  v: 1; t: "post";
-  // minimal web2/web3 pointer fields:
-  cid?: string;                 // optional IPFS CID
-  url: string;                  // http(s) or ipfs://
-  author: string;               // base58
-  cap?: string;                 // optional caption
-  // carry-through memegen extras so your editor can reconstruct:
-  k?: string; l?: string[]; wm?: string;
-};
-
-type LikePayload = {
-  v: 1; t: "like";
-  id?: string;                  // legacy id (used by older clients)
-  cid?: string;                 // preferred: pointer to the post content
-  to: string;                   // author base58
-  c: string;                    // liker base58
-  amt: number;                  // lamports paid by liker
-  x?: 1;                        // superlike marker
-};
 
 // ---------- Feed (static JSON) ----------
-type FeedIndex = {
+export type FeedIndex = {
   updated: number;
   latestPage: number;
   pageSize: number;
   pages: { n: number; path: string; fromSig?: string; toSig?: string }[];
+  moderation?: ModState; // owner hide / block actions, applied when reading the pages
 };
 
-type FeedItemPost = PostPayload & { sig: string; slot: number; ts: number; likes?: number; tipLamports?: number };
-type FeedItemLike = LikePayload & { sig: string; slot: number; ts: number };
-type FeedPage = { n: number; items: Array<({ type: "post" } & FeedItemPost) | ({ type: "like" } & FeedItemLike)> };
+export type FeedItemPost = PostPayload & { sig: string; slot: number; ts: number; likes?: number; tipLamports?: number };
+export type FeedItemLike = LikePayload & { sig: string; slot: number; ts: number; tipLamports?: number };
+export type FeedItemMod = ModPayload & { sig: string; slot: number; ts: number }; // live feed only
+export type FeedPage = {
+  n: number;
+  items: Array<({ type: "post" } & FeedItemPost) | ({ type: "like" } & FeedItemLike) | ({ type: "mod" } & FeedItemMod)>;
+};
 
 // --- BASE_URL + robust fetch to avoid HTML/DOCTYPE errors in dev ---
 const BASE_URL = (import.meta as any).env?.BASE_URL || "/"; // Vite injects this
@@ -164,30 +103,123 @@ async function fetchJSON<T>(path: string): Promise<T> {
   return res.json();
 }
 
-async function loadStaticPage(): Promise<FeedItemPost[]> {
-  // 1) fetch index
-  const idx = await fetchJSON<FeedIndex>("feed/index.json");
-  const latestPath =
-    (idx.pages.find(p => p.n === idx.latestPage)?.path ||
-     `feed/pages/page-${String(idx.latestPage).padStart(4, "0")}.json`)
-    .replace(/^\//, ""); // ensure relative for BASE_URL join
+// ---------- Live feed (netlify/functions/feed-webhook.ts) ----------
+// Events the webhook stored since the last static build; not there on static-only hosts (IPFS).
+type LiveFeed = { updated: number; items: FeedPage["items"] };
+
+async function loadLiveItems(): Promise<FeedPage["items"]> {
+  try {
+    return (await fetchJSON<LiveFeed>("api/feed")).items || [];
+  } catch (e) {
+    dbg("live feed unavailable:", e);
+    return [];
+  }
+}
 
-  // 2) fetch latest page
-  const page = await fetchJSON<FeedPage>(latestPath);
+export type FeedSnapshot = { posts: FeedItemPost[]; mods: ModState };
 
-  // 3) take posts only, newest first
-  const posts = (page.items || [])
+/** Latest static page + newer live events: posts newest first (tallies merged), owner moderation. */
+export async function loadFeedSnapshot(): Promise<FeedSnapshot> {
+  const live = loadLiveItems();
+  let items: FeedPage["items"] = [];
+  let mods = emptyModState();
+  try {
+    // 1) fetch index
+    const idx = await fetchJSON<FeedIndex>("feed/index.json");
+    if (idx.moderation) mods = { ...idx.moderation, hidden: [...idx.moderation.hidden], blocked: [...idx.moderation.blocked] };
+    const latestPath =
+      (idx.pages.find(p => p.n === idx.latestPage)?.path ||
+       `feed/pages/page-${String(idx.latestPage).padStart(4, "0")}.json`)
+      .replace(/^\//, ""); // ensure relative for BASE_URL join
+
+    // 2) fetch latest page
+    const page = await fetchJSON<FeedPage>(latestPath);
+    items = page.items || [];
+  } catch (e) {
+    if (!(await live).length) throw e;
+    warn("static feed unavailable, showing live events only:", e);
+  }
+
+  // 3) live events newer than the static build: new posts on top, their likes on the tallies,
+  //    mod actions the index doesn't include yet (live items come oldest first)
+  const builtTo = items.reduce((m, it) => Math.max(m, it.slot || 0), 0);
+  const liveItems = await live;
+  const fresh = liveItems.filter((it) => (it.slot || 0) > builtTo);
+  for (const it of liveItems) {
+    if (it.type === "mod" && it.slot > mods.slot) applyMod(mods, it, it.slot);
+  }
+  const tally = new Map<string, { likes: number; tipLamports: number }>();
+  for (const it of fresh) {
+    if (it.type !== "like" || !it.cid || listReason(it)) continue;
+    const cur = tally.get(it.cid) || { likes: 0, tipLamports: 0 };
+    cur.likes += 1;
+    cur.tipLamports += it.tipLamports || 0;
+    tally.set(it.cid, cur);
+  }
+
+  // 4) take posts only, newest first
+  const posts = [...items, ...fresh]
     .filter((it: any) => it.type === "post")
     .map((it: any) => it as FeedItemPost)
+    .map((it) => {
+      const t = it.cid ? tally.get(it.cid) : undefined;
+      return t ? { ...it, likes: (it.likes ?? 0) + t.likes, tipLamports: (it.tipLamports ?? 0) + t.tipLamports } : it;
+    })
     .sort((a, b) => (b.ts || 0) - (a.ts || 0));
-  return posts;
+  return { posts, mods };
+}
+
+/** Posts of a snapshot that are shown: spam policy + owner moderation. */
+function visiblePosts({ posts, mods }: FeedSnapshot): FeedItemPost[] {
+  // 5) spam policy, re-applied so blocklist / allowlist changes also hide already-built posts;
+  //    then owner moderation (hidden posts still count towards the rate limit, as when indexed)
+  const rate: RateState = {};
+  const kept = new Set(
+    [...posts]
+      .reverse()
+      .filter((it) => !listReason(it) && !rateLimited(rate, it.author, it.ts || 0) && !isModerated(mods, it))
+      .map((it) => it.sig)
+  );
+  return posts.filter((it) => kept.has(it.sig));
+}
+
+// ---------- Post authenticity (feedpolicy.ts) ----------
+// What checkPayload() needs to know about a fetched registry transaction
+function txFacts(tx: any, keys: string[]): TxFacts {
+  const registry = REGISTRY_PK.toBase58();
+  const r = keys.indexOf(registry);
+  const ping = r < 0 ? 0 : (tx.meta?.postBalances[r] ?? 0) - (tx.meta?.preBalances[r] ?? 0);
+  return { feePayer: keys[0], registry, moderator: OWNER_PK.toBase58(), ping };
+}
+
+// The indexer and the webhook only keep posts whose author paid for the transaction; posts are
+// checked again against their tx before they're shown (cached, so once per post). Only a proven
+// mismatch hides a post: an RPC failure or a tx that isn't served yet keeps it.
+const postChecks = new Map<string, Promise<boolean>>();
+function postVerified(it: FeedItemPost): Promise<boolean> {
+  let check = postChecks.get(it.sig);
+  if (!check) {
+    check = getTransactionCached(it.sig)
+      .then((tx) => {
+        if (!tx) return true;
+        if (tx.meta?.err) return false;
+        const reason = checkPayload(it, txFacts(tx, accountKeysOf(tx)));
+        if (reason) warn("hiding post", it.sig, reason);
+        return !reason;
+      })
+      .catch((e) => {
+        dbg("post check unavailable:", it.sig, e);
+        return true;
+      });
+    postChecks.set(it.sig, check);
+  }
+  return check;
 }
 
 // ---------- Progress events ----------
 function emitProgress(phase: string, data?: Record<string, any>) {
-  const detail = { phase, ...(data || {}) };
-  window.dispatchEvent(new CustomEvent("stonky:txProgress", { detail }));
-  dbg("progress:", detail);
+  emitTxProgress(phase, { flow: "publish", ...(data || {}) });
+  dbg("progress:", phase, data);
 }
 
 // ---------- Memegen helper (for legacy posts or local preview) ----------
@@ -209,10 +241,14 @@ function memeId(key?: string, lines?: string[]) {
   return `${key}|${safe.join("|")}`.slice(0, 120);
 }
 
+// What likes of a post refer to: its CID, else the legacy id
+const likeKey = (it: FeedItemPost) => it.cid || memeId(it.k, it.l);
+
 // ---------- Publish meme (now emits t:"post" for the Web2 feed bot) ----------
 export async function publishMemeApi(opts: { key?: string; lines?: string[]; wm?: string; url?: string; cid?: string; cap?: string }) {
-  const provider = (window as any).solana;
-  if (!provider?.publicKey) throw new Error("Connect wallet first");
+  const wallet = getWallet();
+  const author = wallet?.publicKey;
+  if (!wallet || !author) throw new Error("Connect wallet first");
 
   // Prefer explicit URL/CID if provided (e.g., IPFS); otherwise use memegen preview URL.
   const url = opts.url || memegenPreviewUrl(opts.key, opts.lines);
@@ -220,56 +256,64 @@ export async function publishMemeApi(opts: { key?: string; lines?: string[]; wm?
 
   const payload: PostPayload = {
     v: 1, t: "post",
-    url, cid: opts.cid, author: provider.publicKey.toBase58(),
+    url, cid: opts.cid, author: author.toBase58(),
     cap: opts.cap,
     // carry extras so editor can reconstruct:
-    k: opts.key, l: opts.lines, wm: opts.wm,
+    k: opts.key || undefined, l: opts.lines, wm: opts.wm,
   };
   emitProgress("build:start", { payload });
+  const memo = encodeOrToast(payload);
 
-  let conn: Connection;
+  let recent: string;
   try {
-    conn = await pickConn();
-    emitProgress("build:rpc_ready", { endpoint: (conn as any)?._rpcEndpoint });
+    recent = (await withFailover((c) => c.getLatestBlockhash("finalized"), "getLatestBlockhash")).blockhash;
   } catch (e) {
-    console.error("[Discover] pickConn failed:", e);
+    console.error("[Discover] RPC unavailable:", e);
     toast.error?.("RPC unavailable. Check Helius origin allowlist.");
     throw e;
   }
-
-  const recent = (await conn.getLatestBlockhash("finalized")).blockhash;
+  const conn = getRpcConnection();
+  emitProgress("build:rpc_ready", { endpoint: conn.rpcEndpoint });
 
   const memoIx = new TransactionInstruction({
     programId: MEMO_PROGRAM_ID,
     keys: [],
-    data: Buffer.from(enc.encode(encodeMemo(payload))),
+    data: Buffer.from(enc.encode(memo)),
   });
   // 1 lamport "ping" so the tx indexes under REGISTRY
   const pingIx = SystemProgram.transfer({
-    fromPubkey: provider.publicKey,
+    fromPubkey: author,
     toPubkey: REGISTRY_PK,
     lamports: 1, // 0 is invalid; costs effectively nothing
   });
 
   const tx = new Transaction().add(pingIx, memoIx);
-  tx.feePayer = provider.publicKey;
+  tx.feePayer = author;
   tx.recentBlockhash = recent;
 
-  // Send via wallet
+  // Priority fee + CU limit (preset shared with the Tip Jar)
+  let estimate: FeeEstimate | undefined;
+  try {
+    ({ estimate } = await withFailover((c) => prioritize(c, tx), "prioritize"));
+    emitProgress("fee:estimate", { ...estimate });
+  } catch (e) {
+    warn("priority fee unavailable, sending without:", e);
+  }
+
+  await reviewOrCancel(conn, tx, {
+    title: "Publish to Discover",
+    watch: [
+      { label: "You", address: author },
+      { label: "Registry", address: REGISTRY_PK },
+    ],
+    estimate,
+  }, "Publish canceled.");
+
+  // Send via wallet (already simulated in the review step)
   let sig = "";
   try {
-    if (typeof provider.signAndSendTransaction === "function") {
-      emitProgress("wallet:signing", { mode: "signAndSendTransaction" });
-      const res = await provider.signAndSendTransaction(tx);
-      sig = res.signature;
-    } else if (typeof provider.sendTransaction === "function") {
-      emitProgress("wallet:signing", { mode: "sendTransaction" });
-      sig = await provider.sendTransaction(tx, conn, { skipPreflight: true });
-    } else {
-      emitProgress("wallet:signing", { mode: "signTransaction" });
-      const signed = await provider.signTransaction(tx);
-      sig = await conn.sendRawTransaction(signed.serialize(), { skipPreflight: true });
-    }
+    emitProgress("wallet:signing", { wallet: wallet.name, kind: wallet.kind });
+    sig = await wallet.signAndSendTransaction(tx, conn, { skipPreflight: true });
     emitProgress("wallet:signed", { sig });
   } catch (e) {
     if (String(e).includes("User rejected")) {
@@ -292,7 +336,7 @@ export async function publishMemeApi(opts: { key?: string; lines?: string[]; wm?
     warn("Proceeding despite confirm error.");
   }
 
-  (window as any).__lastPublish = { sig, payload, endpoint: (conn as any)?._rpcEndpoint };
+  (window as any).__lastPublish = { sig, payload, endpoint: conn.rpcEndpoint };
   toast.success?.("Published to Discover");
   emitProgress("done", { sig });
 
@@ -300,12 +344,40 @@ export async function publishMemeApi(opts: { key?: string; lines?: string[]; wm?
   return sig;
 }
 
+// ---------- Memo (memoproto.ts: validated, v2, within the memo budget) ----------
+function encodeOrToast(payload: PostPayload | LikePayload | ModPayload): string {
+  try {
+    return encodeFeedMemo(payload);
+  } catch (e) {
+    toast.error?.((e as Error).message);
+    throw e;
+  }
+}
+
+// ---------- Pre-sign review ----------
+async function reviewOrCancel(
+  conn: Connection,
+  tx: Transaction,
+  opts: Parameters<typeof reviewTransaction>[2],
+  canceledMsg: string
+) {
+  try {
+    await reviewTransaction(conn, tx, opts);
+  } catch (e) {
+    const blocked = e instanceof TxPreviewError && e.code === "blocked";
+    emitProgress(blocked ? "review:blocked" : "review:cancelled", { reason: String((e as any)?.message || e) });
+    if (blocked) toast.error?.((e as Error).message);
+    else toast.info?.(canceledMsg);
+    throw e;
+  }
+}
+
 // ---------- Like / Superlike (adds both id & cid so indexer can tally by CID) ----------
 export async function publishLike(opts: { id?: string; cid?: string; creator: string; lamports: number; superlike?: boolean }) {
-  const provider = (window as any).solana;
-  if (!provider?.publicKey) throw new Error("Connect wallet first");
+  const wallet = getWallet();
+  const payer = wallet?.publicKey;
+  if (!wallet || !payer) throw new Error("Connect wallet first");
 
-  const payer = provider.publicKey;
   const total = Math.max(1, Math.floor(opts.lamports));
   const fee = Math.max(1, Math.floor((total * LIKE_FEE_BPS) / 10_000));
   const toCreator = Math.max(0, total - fee);
@@ -313,24 +385,24 @@ export async function publishLike(opts: { id?: string; cid?: string; creator: st
   const likePayload: LikePayload = {
     v: 1,
     t: "like",
-    id: opts.id,           // legacy
+    id: opts.id || undefined, // legacy
     cid: opts.cid,         // preferred when present
     to: opts.creator,
     c: payer.toBase58(),
     amt: total,
     x: opts.superlike ? 1 : undefined,
   };
+  const memo = encodeOrToast(likePayload);
 
-  let conn: Connection;
-  try { conn = await pickConn(); }
+  let recent: string;
+  try { recent = (await withFailover((c) => c.getLatestBlockhash("finalized"), "getLatestBlockhash")).blockhash; }
   catch (e) { toast.error?.("RPC unavailable"); throw e; }
-
-  const recent = (await conn.getLatestBlockhash("finalized")).blockhash;
+  const conn = getRpcConnection();
 
   const memoIx = new TransactionInstruction({
     programId: MEMO_PROGRAM_ID,
     keys: [],
-    data: Buffer.from(enc.encode(encodeMemo(likePayload))),
+    data: Buffer.from(enc.encode(memo)),
   });
 
   const ixPing = SystemProgram.transfer({ fromPubkey: payer, toPubkey: REGISTRY_PK, lamports: 1 });
@@ -346,17 +418,28 @@ export async function publishLike(opts: { id?: string; cid?: string; creator: st
   tx.feePayer = payer;
   tx.recentBlockhash = recent;
 
+  let estimate: FeeEstimate | undefined;
+  try {
+    ({ estimate } = await withFailover((c) => prioritize(c, tx), "prioritize"));
+    emitProgress("fee:estimate", { ...estimate, flow: "like" });
+  } catch (e) {
+    warn("priority fee unavailable, sending without:", e);
+  }
+
+  await reviewOrCancel(conn, tx, {
+    title: opts.superlike ? "Superlike" : "Like",
+    watch: [
+      { label: "You", address: payer },
+      { label: "Creator", address: new PublicKey(opts.creator) },
+      { label: "Owner (fee)", address: OWNER_PK },
+      { label: "Registry", address: REGISTRY_PK },
+    ],
+    estimate,
+  }, "Like canceled.");
+
   let sig = "";
   try {
-    if (typeof provider.signAndSendTransaction === "function") {
-      const res = await provider.signAndSendTransaction(tx);
-      sig = res.signature;
-    } else if (typeof provider.sendTransaction === "function") {
-      sig = await provider.sendTransaction(tx, conn, { skipPreflight: true });
-    } else {
-      const signed = await provider.signTransaction(tx);
-      sig = await conn.sendRawTransaction(signed.serialize(), { skipPreflight: true });
-    }
+    sig = await wallet.signAndSendTransaction(tx, conn, { skipPreflight: true });
   } catch (e) {
     if (String(e).includes("User rejected")) { toast.info?.("Like canceled."); throw e; }
     console.error("[Discover] like send failed:", e);
@@ -371,18 +454,72 @@ export async function publishLike(opts: { id?: string; cid?: string; creator: st
   return sig;
 }
 
+// ---------- Moderation (owner only; admin.ts) ----------
+// A t:"mod" memo from the owner wallet, indexed under the registry like everything else. The
+// indexer and the webhook only count it when the owner paid for it; readers apply it.
+export async function publishModeration(payload: ModPayload) {
+  const wallet = getWallet();
+  const payer = wallet?.publicKey;
+  if (!wallet || !payer) throw new Error("Connect wallet first");
+  if (!payer.equals(OWNER_PK)) throw new Error("Only the owner wallet can moderate");
+  const memo = encodeOrToast(payload);
+
+  let recent: string;
+  try { recent = (await withFailover((c) => c.getLatestBlockhash("finalized"), "getLatestBlockhash")).blockhash; }
+  catch (e) { toast.error?.("RPC unavailable"); throw e; }
+  const conn = getRpcConnection();
+
+  const memoIx = new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [],
+    data: Buffer.from(enc.encode(memo)),
+  });
+  const tx = new Transaction();
+  // the registry signs nothing here; the ping only makes the tx index under it
+  if (!payer.equals(REGISTRY_PK)) tx.add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: REGISTRY_PK, lamports: 1 }));
+  tx.add(memoIx);
+  tx.feePayer = payer;
+  tx.recentBlockhash = recent;
+
+  let estimate: FeeEstimate | undefined;
+  try {
+    ({ estimate } = await withFailover((c) => prioritize(c, tx), "prioritize"));
+  } catch (e) {
+    warn("priority fee unavailable, sending without:", e);
+  }
+
+  await reviewOrCancel(conn, tx, {
+    title: `Moderation: ${payload.act}`,
+    watch: [
+      { label: "You (owner)", address: payer },
+      { label: "Registry", address: REGISTRY_PK },
+    ],
+    estimate,
+  }, "Moderation canceled.");
+
+  let sig = "";
+  try {
+    sig = await wallet.signAndSendTransaction(tx, conn, { skipPreflight: true });
+  } catch (e) {
+    if (String(e).includes("User rejected")) { toast.info?.("Moderation canceled."); throw e; }
+    console.error("[Discover] moderation send failed:", e);
+    toast.error?.("Transaction failed.");
+    throw e;
+  }
+
+  try { await confirmSignatureSmart(sig); } catch {}
+  toast.success?.(`Done: ${payload.act}`);
+  window.dispatchEvent(new CustomEvent("stonky:moderated", { detail: { ...payload, sig } }));
+  return sig;
+}
+
 // ---------- Confirm helper ----------
 async function confirmSignatureSmart(sig: string) {
-  const tried = new Set<string>();
   let attempts = 0;
   while (attempts++ < 6) {
-    const conn = await pickConn();
-    const ep = (conn as any)._rpcEndpoint as string;
-    if (tried.has(ep)) { await sleep(350 * attempts); continue; }
-    tried.add(ep);
-    dbg("confirm on", ep, "attempt", attempts);
+    dbg("confirm attempt", attempts);
     try {
-      const st = await conn.getSignatureStatuses([sig]);
+      const st = await withFailover((c) => c.getSignatureStatuses([sig]), "getSignatureStatuses", 1);
       const s = st?.value?.[0];
       if (s?.confirmationStatus === "confirmed" || s?.confirmationStatus === "finalized") return;
       await sleep(jitter(800));
@@ -394,27 +531,29 @@ async function confirmSignatureSmart(sig: string) {
 
 // ---------- Likes map (soft, recent only to stay rate-limit friendly) ----------
 type LikesMap = Record<string, number>;
-async function loadRecentLikesMap(limitSigs = 200): Promise<LikesMap> {
+async function loadRecentLikesMap(snap: FeedSnapshot, limitSigs = 200): Promise<LikesMap> {
   // Pull just a single page of signatures and count likes by cid or id (fallback)
-  const conn = await pickConn();
-  const sigs = await conn.getSignaturesForAddress(REGISTRY_PK, { limit: limitSigs });
+  // (cached: only signatures newer than the last seen one are fetched, finalized txs come from IndexedDB)
+  // Same rules as the indexer (checkPayload: blocklist), plus owner moderation: likes by blocked
+  // wallets and likes on hidden posts / blocked authors don't count
+  const sigs = await getSignaturesCached(REGISTRY_PK, limitSigs);
   const list = sigs.map((s) => s.signature);
+  const moderated = new Set(snap.posts.filter((it) => isModerated(snap.mods, it)).map(likeKey));
 
   const out: LikesMap = {};
   for (const sig of list) {
     try {
-      const tx = await conn.getTransaction(sig, { maxSupportedTransactionVersion: 0 });
-      const metaMemo = (tx as any)?.meta?.memo;
-      let memoStr = typeof metaMemo === "string" && metaMemo ? metaMemo : "";
-      if (!memoStr) {
-        const logs: string[] = (tx as any)?.meta?.logMessages || [];
-        const lastLog = logs.filter((m: string) => m?.startsWith("Program log: ")).pop();
-        if (lastLog) memoStr = lastLog.slice("Program log: ".length);
-      }
-      const j = tryParseJSON(memoStr);
-      if (j && j.t === "like") {
-        const key = j.cid || j.id;
-        if (typeof key === "string" && key.length) out[key] = (out[key] || 0) + 1;
+      const tx = await getTransactionCached(sig);
+      if (!tx || tx.meta?.err) continue;
+      const keys = accountKeysOf(tx);
+      const facts = txFacts(tx, keys);
+      for (const memo of memosOf(tx, keys)) {
+        const p = decodeFeedMemo(memo, { feePayer: keys[0] });
+        if (!p?.ok || p.value.t !== "like") continue;
+        if (checkPayload(p.value, facts) || snap.mods.blocked.includes(p.value.c)) continue;
+        const key = p.value.cid || p.value.id!;
+        if (moderated.has(key)) continue;
+        out[key] = (out[key] || 0) + 1;
       }
     } catch {}
   }
@@ -457,10 +596,10 @@ export function initDiscoverFeed() {
 
   let pageOffset = 0; // we slice the latest static page in chunks of PAGE_SIZE
 
-  async function bootstrapLikes() {
+  async function bootstrapLikes(snap: FeedSnapshot) {
     if (Object.keys(likesMap).length) return;
     try {
-      const m = await loadRecentLikesMap(200);
+      const m = await loadRecentLikesMap(snap, 200);
       Object.assign(likesMap, m);
     } catch (e) {
       warn("likes map load failed", e);
@@ -471,7 +610,7 @@ export function initDiscoverFeed() {
     const cards = posts.map((it) => {
       const httpUrl = ipfsToHttp(it.url || "");
       // Prefer CID as the stable key for likes; fallback to legacy id reconstruction.
-      const key = it.cid || memeId(it.k, it.l);
+      const key = likeKey(it);
       const when = it.ts ? new Date((it.ts || 0) * 1000).toLocaleString() : "";
       const likeSol = solStr(LIKE_LAMPORTS);
       const superSol = solStr(SUPERLIKE_LAMPORTS);
@@ -480,7 +619,8 @@ export function initDiscoverFeed() {
       const imgSrc = httpUrl || memegenPreviewUrl(it.k, it.l);
 
       return `
-        <div class="relative rounded-lg overflow-hidden border border-white/10 bg-white/5">
+        <div class="relative rounded-lg overflow-hidden border border-white/10 bg-white/5"
+          data-post="${escapeAttr(it.sig)}" data-author="${escapeAttr(it.author)}">
           <img src="${imgSrc}" alt="${escapeAttr(it.k || it.cap || "meme")}" class="w-full aspect-square object-cover" />
           ${it.wm ? `<div class="absolute right-2 bottom-2 px-2 py-1 rounded bg-black/50 text-[11px]">${escapeAttr(it.wm)}</div>` : ""}
 
@@ -542,21 +682,24 @@ export function initDiscoverFeed() {
 
     try {
       // 1) load latest static page
-      const allPosts = await loadStaticPage();
+      const snap = await loadFeedSnapshot();
+      const allPosts = visiblePosts(snap);
       if (!allPosts.length) {
         more.textContent = "No posts yet";
         return;
       }
 
       // 2) slice a chunk
-      const slice = allPosts.slice(pageOffset, pageOffset + PAGE_SIZE);
-      pageOffset += slice.length;
+      const chunk = allPosts.slice(pageOffset, pageOffset + PAGE_SIZE);
+      pageOffset += chunk.length;
+      const ok = await Promise.all(chunk.map(postVerified));
+      const slice = chunk.filter((_, i) => ok[i]);
       renderCards(slice);
 
       // 3) populate likes
-      await bootstrapLikes();
+      await bootstrapLikes(snap);
       for (const it of slice) {
-        const k = it.cid || memeId(it.k, it.l);
+        const k = likeKey(it);
         const el = grid.querySelector<HTMLElement>(`[data-like-count="${cssEscape(k)}"]`);
         if (el && it.likes == null) el.textContent = String(likesMap[k] || 0);
       }
@@ -579,6 +722,25 @@ export function initDiscoverFeed() {
   loadMore();
   more.addEventListener("click", loadMore);
 
+  function restart() {
+    for (const k of Object.keys(likesMap)) delete likesMap[k];
+    grid.innerHTML = "";
+    pageOffset = 0;
+    more.textContent = "Load more";
+    loadMore();
+  }
+
+  // Cluster switch: likes live on the new cluster's registry → start over
+  window.addEventListener("stonky:clusterChanged", restart);
+
+  // Owner moderation (admin.ts): hide right away; an undo shows up once the feed has the action
+  window.addEventListener("stonky:moderated", (e: any) => {
+    const { act, post, w } = e?.detail || {};
+    if (act === "hide" && post) grid.querySelector(`[data-post="${cssEscape(post)}"]`)?.remove();
+    else if (act === "block" && w) grid.querySelectorAll(`[data-author="${cssEscape(w)}"]`).forEach((el) => el.remove());
+    else restart();
+  });
+
   // Live bump when a like finishes
   window.addEventListener("stonky:liked", (e: any) => {
     const key = e?.detail?.cid || e?.detail?.id;
@@ -590,7 +752,8 @@ export function initDiscoverFeed() {
     const { key, lines, wm, url, cid, cap } = e?.detail || {};
     try { await publishMemeApi({ key, lines, wm, url, cid, cap }); }
     catch (err) {
-      if (String(err).includes("User rejected")) return;
+      // review and memo errors were already toasted where they happened
+      if (err instanceof TxPreviewError || err instanceof MemoError || String(err).includes("User rejected")) return;
       console.error("[Discover] Publish failed:", err);
       toast.error?.("Publish failed. Please try again.");
     }
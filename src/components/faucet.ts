@@ -0,0 +1,166 @@
+// src/components/faucet.ts
+// Devnet-only helpers so testers can actually try tips and likes:
+// - Persistent "TEST MODE" banner whenever the active cluster is devnet
+// - Faucet panel: connected wallet balance + requestAirdrop (through the shared pool)
+// - Faucet rate limits → friendly message, local cooldown and a link to faucet.solana.com
+// Shown/hidden on `stonky:clusterChanged`, so it follows the runtime cluster switch.
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getCluster } from "./solana";
+import { classifyRpcError, withFailover } from "./rpc";
+import { getWallet, onWalletChange } from "./wallet";
+import { showToast } from "./toast";
+import { trackConfirmation } from "./txconfirm";
+
+const BANNER_ID = "test-mode-banner";
+const PANEL_ID = "devnet-faucet";
+const COOLDOWN_KEY = "stonky:faucet:until";
+const RATE_LIMIT_COOLDOWN_MS = 10 * 60_000;
+const AMOUNTS = [0.5, 1, 2];
+
+const isDevnet = () => getCluster() === "devnet";
+
+// -------------------- banner --------------------
+function ensureBanner(): HTMLElement {
+  let el = document.getElementById(BANNER_ID);
+  if (el) return el;
+  el = document.createElement("div");
+  el.id = BANNER_ID;
+  el.setAttribute("role", "status");
+  el.className =
+    "hidden sticky top-0 z-[60] w-full bg-yellow-400 text-black text-xs font-bold tracking-wide text-center py-1";
+  el.textContent = "TEST MODE · devnet — tips and likes use valueless devnet SOL";
+  document.body.prepend(el);
+  return el;
+}
+
+// -------------------- panel --------------------
+function ensurePanel(): HTMLElement | null {
+  let el = document.getElementById(PANEL_ID);
+  if (el) return el;
+  const feed = document.getElementById("tip-feed");
+  if (!feed) return null;
+  el = document.createElement("div");
+  el.id = PANEL_ID;
+  el.className = "hidden rounded-lg border border-yellow-400/40 bg-yellow-400/5 px-3 py-2 text-xs";
+  el.innerHTML = `
+    <div class="flex items-center justify-between gap-2">
+      <span class="font-semibold text-yellow-300">Devnet faucet</span>
+      <span>Balance: <b id="faucet-balance">—</b></span>
+    </div>
+    <div class="flex items-center gap-2 mt-2">
+      ${AMOUNTS.map(
+        (a) =>
+          `<button type="button" data-sol="${a}" class="faucet-btn px-2 py-1 rounded border border-white/15 bg-white/10 hover:bg-white/15 disabled:opacity-40">+${a} SOL</button>`
+      ).join("")}
+    </div>
+    <div id="faucet-status" class="text-white/60 mt-1"></div>`;
+  feed.insertAdjacentElement("beforebegin", el);
+  return el;
+}
+
+function setStatus(html: string) {
+  const el = document.getElementById("faucet-status");
+  if (el) el.innerHTML = html;
+}
+
+function cooldownLeft(): number {
+  try {
+    return Math.max(0, Number(localStorage.getItem(COOLDOWN_KEY) || 0) - Date.now());
+  } catch {
+    return 0;
+  }
+}
+
+function setCooldown(ms: number) {
+  try {
+    localStorage.setItem(COOLDOWN_KEY, String(Date.now() + ms));
+  } catch {
+    /* ignore */
+  }
+}
+
+async function refreshBalance() {
+  const out = document.getElementById("faucet-balance");
+  if (!out || !isDevnet()) return;
+  const pk = getWallet()?.publicKey;
+  if (!pk) {
+    out.textContent = "connect a wallet";
+    return;
+  }
+  try {
+    const lamports = await withFailover((c) => c.getBalance(pk, "confirmed"), "getBalance");
+    out.textContent = `${(lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL`;
+  } catch (e) {
+    console.warn("[Faucet] balance failed:", e);
+    out.textContent = "—";
+  }
+}
+
+function setButtonsDisabled(disabled: boolean) {
+  document.querySelectorAll<HTMLButtonElement>(`#${PANEL_ID} .faucet-btn`).forEach((b) => (b.disabled = disabled));
+}
+
+async function airdrop(sol: number) {
+  const pk = getWallet()?.publicKey;
+  if (!pk) {
+    setStatus("Connect a wallet first.");
+    return;
+  }
+  const wait = cooldownLeft();
+  if (wait) {
+    setStatus(
+      `Faucet is cooling down (${Math.ceil(wait / 60_000)} min). Meanwhile try <a class="underline" href="https://faucet.solana.com" target="_blank" rel="noopener">faucet.solana.com</a>.`
+    );
+    return;
+  }
+
+  setButtonsDisabled(true);
+  setStatus(`Requesting ${sol} SOL…`);
+  try {
+    const { lastValidBlockHeight } = await withFailover((c) => c.getLatestBlockhash("confirmed"), "getLatestBlockhash");
+    // one attempt: the faucet limit is per requester, rotating endpoints won't help
+    const sig = await withFailover((c) => c.requestAirdrop(pk, Math.round(sol * LAMPORTS_PER_SOL)), "requestAirdrop", 0);
+    setStatus("Airdrop sent, confirming…");
+    await trackConfirmation(sig, { lastValidBlockHeight, flow: "airdrop" });
+    setStatus(`Received ${sol} SOL.`);
+    showToast(`Airdropped ${sol} devnet SOL`, "success");
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    if (classifyRpcError(e) === "rate_limit" || /airdrop limit|faucet has run dry/i.test(msg)) {
+      setCooldown(RATE_LIMIT_COOLDOWN_MS);
+      setStatus(
+        `The devnet faucet is rate-limited right now. Try a smaller amount later, or use <a class="underline" href="https://faucet.solana.com" target="_blank" rel="noopener">faucet.solana.com</a>.`
+      );
+    } else {
+      console.warn("[Faucet] airdrop failed:", e);
+      setStatus("Airdrop failed. Try again in a moment.");
+    }
+  } finally {
+    setButtonsDisabled(false);
+    void refreshBalance();
+  }
+}
+
+// -------------------- visibility --------------------
+function apply() {
+  const on = isDevnet();
+  ensureBanner().classList.toggle("hidden", !on);
+  ensurePanel()?.classList.toggle("hidden", !on);
+  if (on) void refreshBalance();
+}
+
+export function initDevnetTools() {
+  const panel = ensurePanel();
+  panel?.querySelectorAll<HTMLButtonElement>(".faucet-btn").forEach((b) => {
+    b.onclick = () => void airdrop(Number(b.dataset.sol));
+  });
+
+  onWalletChange(() => void refreshBalance());
+  window.addEventListener("stonky:clusterChanged", apply);
+  // a tip / like just landed → balance moved
+  window.addEventListener("stonky:txProgress", (e: any) => {
+    if (e?.detail?.phase === "confirm:confirmed" || e?.detail?.phase === "confirm:done") void refreshBalance();
+  });
+  apply();
+}
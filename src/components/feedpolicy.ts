@@ -0,0 +1,128 @@
+// src/components/feedpolicy.ts
+// Discover post authenticity + spam policy, applied the same way by the feed indexer
+// (scripts/indexer), the live-feed webhook and the client (discover.ts).
+// - A post's `author` and a like's liker (`c`) must be the transaction's fee payer (the memo
+//   alone proves nothing, and the blocklist applies to whoever actually paid)
+// - A post must send at least FEED_MIN_PING lamports to the registry (the registry itself is exempt)
+// - Blocked wallets: their posts and likes are dropped
+// - A post's url must be on the host allowlist (when one is configured)
+// - Per-author rate limit over block time: a post is dropped when its author already has `max`
+//   accepted posts in the preceding window (dropped posts don't count towards it)
+// - Mod actions (hide / block) count only when the owner wallet paid for them; they're applied
+//   at read time (ModState), so every one of them can be undone
+// Checks return the rejection reason (what the indexer reports and logs) or null.
+
+import { CONFIG } from "./config";
+import type { FeedPayload, ModAction, ModPayload } from "./memoproto";
+
+export type FeedPolicy = {
+  minPing: number;
+  rateLimit: { max: number; windowSecs: number } | null;
+  blocklist: string[];
+  allowedHosts: string[];
+};
+
+export const FEED_POLICY: FeedPolicy = {
+  minPing: CONFIG.FEED_MIN_PING,
+  rateLimit: CONFIG.FEED_RATE_LIMIT,
+  blocklist: CONFIG.FEED_BLOCKLIST,
+  allowedHosts: CONFIG.FEED_ALLOWED_HOSTS,
+};
+
+/** What a payload's transaction shows (read from the tx, never from the memo). */
+export type TxFacts = {
+  feePayer: string;
+  registry: string;
+  ping: number; // lamports the registry received
+  moderator: string; // the owner wallet: the only fee payer whose mod actions count
+};
+
+/** Owner moderation in effect (index.json `moderation`, rebuilt from mod actions oldest first). */
+export type ModState = {
+  hidden: string[]; // post signatures
+  blocked: string[]; // author wallets
+  slot: number; // actions up to this slot are included
+};
+
+/** author → block times of their accepted posts still inside the rate window. */
+export type RateState = Record<string, number[]>;
+
+/** Moderation decisions of the feed indexer, published as public/feed/moderation.json. */
+export type ModerationLog = {
+  v: 1;
+  updated: number; // ms
+  policy: FeedPolicy;
+  counts: Record<string, number>; // by reason, all time
+  recent: { sig: string; ts: number; reason: string }[]; // newest first
+  actions: { sig: string; ts: number; act: ModAction; target: string; why?: string }[]; // newest first
+};
+
+// -------------------- per-payload checks --------------------
+export function hostAllowed(url: string, hosts: string[]): boolean {
+  if (!hosts.length) return true;
+  if (/^ipfs:\/\//i.test(url)) return hosts.includes("ipfs");
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return hosts.some((h) => host === h || host.endsWith(`.${h}`));
+  } catch {
+    return false;
+  }
+}
+
+/** Blocklist + host allowlist: the checks that need only the payload (the client re-applies these). */
+export function listReason(p: FeedPayload, policy = FEED_POLICY): string | null {
+  if (p.t === "mod") return null;
+  if (p.t === "like") return policy.blocklist.includes(p.c) ? "like: blocked wallet" : null;
+  if (policy.blocklist.includes(p.author)) return "post: blocked author";
+  if (!hostAllowed(p.url, policy.allowedHosts)) return "post: url host not allowed";
+  return null;
+}
+
+/** Every per-payload rule; null → accepted (rate limits come after, see rateLimited()). */
+export function checkPayload(p: FeedPayload, tx: TxFacts, policy = FEED_POLICY): string | null {
+  if (p.t === "mod") return tx.feePayer === tx.moderator ? null : "mod: not the owner";
+  if (p.t === "post" && p.author !== tx.feePayer) return "post: author is not the fee payer";
+  if (p.t === "like" && p.c !== tx.feePayer) return "like: liker is not the fee payer";
+  const listed = listReason(p, policy);
+  if (listed) return listed;
+  if (p.t === "post" && p.author !== tx.registry && tx.ping < policy.minPing) return "post: ping below minimum";
+  return null;
+}
+
+// -------------------- rate limit --------------------
+/** true → over the limit (drop it); otherwise the post is counted. Feed posts oldest first. */
+export function rateLimited(state: RateState, author: string, ts: number, policy = FEED_POLICY): boolean {
+  const rl = policy.rateLimit;
+  if (!rl) return false;
+  const recent = (state[author] || []).filter((t) => t > ts - rl.windowSecs);
+  const limited = recent.length >= rl.max;
+  if (!limited) recent.push(ts);
+  state[author] = recent;
+  return limited;
+}
+
+/** Drops authors with nothing inside the window ending at `ts` (keeps a persisted state small). */
+export function pruneRateState(state: RateState, ts: number, policy = FEED_POLICY) {
+  const rl = policy.rateLimit;
+  for (const [author, times] of Object.entries(state)) {
+    const keep = rl ? times.filter((t) => t > ts - rl.windowSecs) : [];
+    if (keep.length) state[author] = keep;
+    else delete state[author];
+  }
+}
+
+// -------------------- moderation --------------------
+export const emptyModState = (): ModState => ({ hidden: [], blocked: [], slot: 0 });
+
+/** Applies one (already authorized) action in place; actions must come oldest first. */
+export function applyMod(state: ModState, p: ModPayload, slot: number) {
+  const [list, target] = p.post ? [state.hidden, p.post] : [state.blocked, p.w!];
+  const i = list.indexOf(target);
+  if ((p.act === "hide" || p.act === "block") && i < 0) list.push(target);
+  if ((p.act === "unhide" || p.act === "unblock") && i >= 0) list.splice(i, 1);
+  state.slot = Math.max(state.slot, slot);
+}
+
+export function isModerated(state: ModState, post: { sig: string; author: string }): boolean {
+  return state.hidden.includes(post.sig) || state.blocked.includes(post.author);
+}
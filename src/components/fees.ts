@@ -0,0 +1,180 @@
+// src/components/fees.ts
+// Priority fees + compute budget for every transaction the app sends.
+// - getRecentPrioritizationFees on the writable accounts → percentile per preset (Low/Normal/Turbo)
+// - Compute unit limit from a simulation (+ headroom), with a safe fallback
+// - prioritize() prepends SetComputeUnitLimit/Price to a legacy Transaction or a VersionedTransaction
+// - FeeEstimate (base + priority lamports) so the UI can show the cost before signing
+
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import type { Connection } from "@solana/web3.js";
+
+export type FeeLevel = "low" | "normal" | "turbo";
+
+export type FeeRpc = Pick<Connection, "getRecentPrioritizationFees" | "simulateTransaction">;
+
+export type FeeEstimate = {
+  level: FeeLevel;
+  microLamports: number; // price per compute unit
+  units: number; // compute unit limit we request
+  baseLamports: number; // 5000 per signature
+  priorityLamports: number;
+  totalLamports: number;
+};
+
+export const FEE_LEVELS: Record<FeeLevel, { label: string; percentile: number; floor: number }> = {
+  low: { label: "Low", percentile: 0.25, floor: 0 },
+  normal: { label: "Normal", percentile: 0.5, floor: 1_000 },
+  turbo: { label: "Turbo", percentile: 0.9, floor: 50_000 },
+};
+
+const STORE_KEY = "stonky:fee";
+const LAMPORTS_PER_SIGNATURE = 5_000;
+const MAX_MICRO_LAMPORTS = 5_000_000; // hard cap so a fee spike can't drain a tip
+const MAX_UNITS = 1_400_000;
+export const FALLBACK_UNITS = 200_000;
+const PRICE_TTL_MS = 15_000;
+
+const priceCache = new Map<string, { at: number; fees: number[] }>();
+
+// -------------------- preference --------------------
+export function getFeeLevel(): FeeLevel {
+  try {
+    const v = localStorage.getItem(STORE_KEY);
+    if (v === "low" || v === "normal" || v === "turbo") return v;
+  } catch {
+    /* no storage (Node, private mode) */
+  }
+  return "normal";
+}
+
+export function setFeeLevel(level: FeeLevel) {
+  try {
+    localStorage.setItem(STORE_KEY, level);
+  } catch {
+    /* ignore */
+  }
+}
+
+// -------------------- price --------------------
+function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/** Micro-lamports per CU for `level`, from recent fees paid on these (writable) accounts. */
+export async function priorityFeeFor(rpc: FeeRpc, accounts: PublicKey[], level: FeeLevel): Promise<number> {
+  const key = accounts.map((a) => a.toBase58()).sort().join(",");
+  let hit = priceCache.get(key);
+  if (!hit || Date.now() - hit.at > PRICE_TTL_MS) {
+    const recent = await rpc.getRecentPrioritizationFees({ lockedWritableAccounts: accounts.slice(0, 128) });
+    hit = { at: Date.now(), fees: recent.map((r) => r.prioritizationFee).sort((a, b) => a - b) };
+    priceCache.set(key, hit);
+  }
+  const cfg = FEE_LEVELS[level];
+  return Math.min(MAX_MICRO_LAMPORTS, Math.max(cfg.floor, Math.ceil(percentile(hit.fees, cfg.percentile))));
+}
+
+// -------------------- compute units --------------------
+function isBudgetIx(ix: TransactionInstruction) {
+  return ix.programId.equals(ComputeBudgetProgram.programId);
+}
+
+function writableKeys(payer: PublicKey, ixs: TransactionInstruction[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>([[payer.toBase58(), payer]]);
+  for (const ix of ixs) for (const k of ix.keys) if (k.isWritable) seen.set(k.pubkey.toBase58(), k.pubkey);
+  return [...seen.values()];
+}
+
+function signerCount(payer: PublicKey, ixs: TransactionInstruction[]) {
+  const s = new Set([payer.toBase58()]);
+  for (const ix of ixs) for (const k of ix.keys) if (k.isSigner) s.add(k.pubkey.toBase58());
+  return s.size;
+}
+
+/** Simulated units + 15% headroom (budget ixs included); FALLBACK_UNITS when simulation can't run. */
+export async function estimateUnits(rpc: FeeRpc, payer: PublicKey, ixs: TransactionInstruction[]): Promise<number> {
+  try {
+    const msg = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(), // replaced by the node
+      instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_UNITS }), ...ixs],
+    }).compileToV0Message();
+    const sim = await rpc.simulateTransaction(new VersionedTransaction(msg), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+    const used = sim.value.unitsConsumed;
+    if (sim.value.err || !used) return FALLBACK_UNITS;
+    return Math.min(MAX_UNITS, Math.ceil(used * 1.15) + 1_000);
+  } catch (e) {
+    console.warn("[Fees] simulation failed, using fallback CU limit:", e);
+    return FALLBACK_UNITS;
+  }
+}
+
+export function feeEstimate(level: FeeLevel, microLamports: number, units: number, signatures = 1): FeeEstimate {
+  const baseLamports = LAMPORTS_PER_SIGNATURE * signatures;
+  const priorityLamports = Math.ceil((microLamports * units) / 1_000_000);
+  return { level, microLamports, units, baseLamports, priorityLamports, totalLamports: baseLamports + priorityLamports };
+}
+
+/** Quick quote for the UI (no simulation): price for `accounts` at a typical CU count. */
+export async function quoteFee(rpc: FeeRpc, accounts: PublicKey[], level: FeeLevel, units: number): Promise<FeeEstimate> {
+  return feeEstimate(level, await priorityFeeFor(rpc, accounts, level), units);
+}
+
+// -------------------- apply --------------------
+/** [SetComputeUnitLimit, SetComputeUnitPrice, ...ixs] (any existing budget ixs are replaced). */
+export async function withComputeBudget(
+  rpc: FeeRpc,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  level: FeeLevel = getFeeLevel()
+): Promise<{ instructions: TransactionInstruction[]; estimate: FeeEstimate }> {
+  const ixs = instructions.filter((ix) => !isBudgetIx(ix));
+  const [microLamports, units] = await Promise.all([
+    priorityFeeFor(rpc, writableKeys(payer, ixs), level),
+    estimateUnits(rpc, payer, ixs),
+  ]);
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units })];
+  if (microLamports > 0) budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  return {
+    instructions: [...budget, ...ixs],
+    estimate: feeEstimate(level, microLamports, units, signerCount(payer, ixs)),
+  };
+}
+
+/**
+ * Adds compute budget instructions to an unsigned transaction.
+ * Legacy: instructions are swapped in place (feePayer required). Versioned: the message is
+ * decompiled and recompiled with the same blockhash (no address lookup tables).
+ */
+export async function prioritize<T extends Transaction | VersionedTransaction>(
+  rpc: FeeRpc,
+  tx: T,
+  level: FeeLevel = getFeeLevel()
+): Promise<{ tx: T; estimate: FeeEstimate }> {
+  if (tx instanceof VersionedTransaction) {
+    const decompiled = TransactionMessage.decompile(tx.message);
+    const { instructions, estimate } = await withComputeBudget(rpc, decompiled.payerKey, decompiled.instructions, level);
+    const msg = new TransactionMessage({
+      payerKey: decompiled.payerKey,
+      recentBlockhash: decompiled.recentBlockhash,
+      instructions,
+    }).compileToV0Message();
+    return { tx: new VersionedTransaction(msg) as T, estimate };
+  }
+
+  const legacy = tx as Transaction;
+  if (!legacy.feePayer) throw new Error("prioritize(): legacy transaction needs a feePayer");
+  const { instructions, estimate } = await withComputeBudget(rpc, legacy.feePayer, legacy.instructions, level);
+  legacy.instructions = instructions;
+  return { tx, estimate };
+}
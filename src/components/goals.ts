@@ -0,0 +1,227 @@
+// src/components/goals.ts
+// Fundraising goals (VITE_TIP_GOALS) with a progress bar in the Tip Jar card.
+// - Sums inbound transfers to the owner (SOL) or the owner's token account (SPL) since the goal's start
+// - Pages getSignaturesForAddress past the feed's window, newest first, until the start date
+// - Progress lives in localStorage and is updated incrementally: signatures newer than the last
+//   pass are added on top, and the backfill resumes where it stopped (bounded work per pass)
+
+import { PublicKey } from "@solana/web3.js";
+import type { ConfirmedSignatureInfo } from "@solana/web3.js";
+import { CONFIG } from "./config";
+import { accountKeysOf, ensureRecipient, getCluster, isCustomRecipient, tokenDeltas } from "./solana";
+import { withFailover } from "./rpc";
+import { getTransactionCached } from "./rpccache";
+import { findAta, findTipToken, formatUnits, toBaseUnits } from "./tokens";
+import type { TipToken } from "./tokens";
+
+export type TipGoal = (typeof CONFIG.TIP_GOALS)[number];
+
+type GoalState = {
+  total: string; // raw base units (bigint as string)
+  newest?: string; // newest signature counted
+  oldest?: string; // backfill cursor
+  done: boolean; // backfill reached the start date
+};
+
+const STORE_PREFIX = "stonky:goal:";
+const PAGE_SIZE = 100;
+const MAX_TXS_PER_PASS = 60; // getTransaction calls per refresh; the rest waits for the next pass
+const TX_BATCH = 5;
+const REFRESH_MS = 5 * 60_000;
+const BACKFILL_MS = 15_000;
+const ROOT_ID = "tip-goals";
+
+let timer: number | null = null;
+let running = false;
+
+// -------------------- state --------------------
+function stateKey(address: PublicKey, goal: TipGoal) {
+  return `${STORE_PREFIX}${getCluster()}:${address.toBase58()}:${goal.start}`;
+}
+
+function loadState(key: string): GoalState {
+  try {
+    const s = JSON.parse(localStorage.getItem(key) || "null");
+    if (s && typeof s.total === "string") return s;
+  } catch {
+    /* corrupt → recount */
+  }
+  return { total: "0", done: false };
+}
+
+function saveState(key: string, s: GoalState) {
+  try {
+    localStorage.setItem(key, JSON.stringify(s));
+  } catch {
+    /* ignore */
+  }
+}
+
+// -------------------- counting --------------------
+/** Raw amount `owner` received in `sig` (0 for failed txs and outgoing transfers). */
+async function receivedIn(sig: string, owner: string, token: TipToken): Promise<bigint> {
+  const tx: any = await getTransactionCached(sig);
+  if (!tx || tx.meta?.err) return 0n;
+  if (token.mint) {
+    return tokenDeltas(tx, owner)
+      .filter((d) => d.mint === token.mint)
+      .reduce((sum, d) => sum + d.raw, 0n);
+  }
+  const i = accountKeysOf(tx).indexOf(owner);
+  const delta = i < 0 ? 0 : (tx.meta?.postBalances?.[i] ?? 0) - (tx.meta?.preBalances?.[i] ?? 0);
+  return delta > 0 ? BigInt(delta) : 0n;
+}
+
+async function sumReceived(sigs: ConfirmedSignatureInfo[], owner: string, token: TipToken): Promise<bigint> {
+  let sum = 0n;
+  const live = sigs.filter((s) => !s.err);
+  for (let i = 0; i < live.length; i += TX_BATCH) {
+    const amounts = await Promise.all(live.slice(i, i + TX_BATCH).map((s) => receivedIn(s.signature, owner, token)));
+    sum = amounts.reduce((a, b) => a + b, sum);
+  }
+  return sum;
+}
+
+function signatures(address: PublicKey, opts: { before?: string; until?: string; limit: number }) {
+  return withFailover((c) => c.getSignaturesForAddress(address, opts, "confirmed"), "getSignaturesForAddress");
+}
+
+/**
+ * One incremental pass: count what landed since the last pass, then continue the backfill
+ * towards the start date. Returns the updated state (also persisted).
+ */
+export async function updateGoal(goal: TipGoal, owner: PublicKey, token: TipToken): Promise<GoalState> {
+  const address = token.mint ? findAta(owner, new PublicKey(token.mint)) : owner;
+  const key = stateKey(address, goal);
+  const state = loadState(key);
+  const startSec = Math.floor(goal.start / 1000);
+  const inRange = (s: ConfirmedSignatureInfo) => s.blockTime == null || s.blockTime >= startSec;
+  let total = BigInt(state.total);
+  let budget = MAX_TXS_PER_PASS;
+
+  // 1) new activity on top
+  if (state.newest) {
+    const fresh: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    for (;;) {
+      const page = await signatures(address, { until: state.newest, before, limit: PAGE_SIZE });
+      fresh.push(...page);
+      if (page.length < PAGE_SIZE) break;
+      before = page[page.length - 1].signature;
+    }
+    if (fresh.length) {
+      const counted = fresh.filter(inRange);
+      total += await sumReceived(counted, owner.toBase58(), token);
+      budget -= counted.length;
+      state.newest = fresh[0].signature;
+    }
+  }
+
+  // 2) backfill towards the start date
+  while (!state.done && budget > 0) {
+    const limit = Math.min(PAGE_SIZE, budget);
+    const page = await signatures(address, { before: state.oldest, limit });
+    if (!state.newest && page[0]) state.newest = page[0].signature;
+    const counted = page.filter(inRange);
+    total += await sumReceived(counted, owner.toBase58(), token);
+    budget -= counted.length;
+    if (counted.length) state.oldest = counted[counted.length - 1].signature;
+    if (counted.length < page.length || page.length < limit) state.done = true;
+    state.total = total.toString();
+    saveState(key, state); // keep partial progress if the next page fails
+  }
+
+  state.total = total.toString();
+  saveState(key, state);
+  return state;
+}
+
+// -------------------- UI --------------------
+function escapeHtml(s?: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
+function ensureRoot(): HTMLElement | null {
+  let el = document.getElementById(ROOT_ID);
+  if (el) return el;
+  const header = document.querySelector("#tip-jar > :first-child");
+  if (!header) return null;
+  el = document.createElement("div");
+  el.id = ROOT_ID;
+  el.className = "grid gap-3 mb-4";
+  header.insertAdjacentElement("afterend", el);
+  return el;
+}
+
+function renderGoal(goal: TipGoal, token: TipToken | undefined, state: GoalState | null) {
+  const raw = state ? BigInt(state.total) : 0n;
+  const target = token ? toBaseUnits(goal.target, token.decimals) : 1n;
+  const pct = Math.min(100, Number((raw * 10_000n) / target) / 100);
+  const symbol = token?.symbol ?? goal.token;
+  const amount = token && state ? formatUnits(raw, token.decimals, 2) : "…";
+  const note = !token
+    ? `${escapeHtml(goal.token)} isn't available on ${getCluster()}`
+    : state && !state.done
+    ? "counting older tips…"
+    : `${pct.toFixed(pct < 10 ? 1 : 0)}%`;
+  return `<div>
+      <div class="flex items-center justify-between text-xs">
+        <span class="font-semibold">${escapeHtml(goal.title)}</span>
+        <span class="text-white/70">${amount} / ${goal.target} ${escapeHtml(symbol)}</span>
+      </div>
+      <div class="h-2 mt-1 rounded-full bg-white/10 overflow-hidden" role="progressbar" aria-label="${escapeHtml(goal.title)}"
+           aria-valuemin="0" aria-valuemax="100" aria-valuenow="${Math.round(pct)}">
+        <div class="h-full rounded-full bg-gradient-to-r from-[#9945FF] to-[#14F195] transition-all" style="width:${pct}%"></div>
+      </div>
+      <div class="text-[11px] text-white/50 mt-1">since ${new Date(goal.start).toLocaleDateString()} · ${note}</div>
+    </div>`;
+}
+
+function schedule(ms: number) {
+  if (timer) window.clearTimeout(timer);
+  timer = window.setTimeout(() => void refreshGoals(), ms);
+}
+
+export async function refreshGoals() {
+  const root = ensureRoot();
+  if (!root || !CONFIG.TIP_GOALS.length) return;
+  // goals belong to the configured owner, not to ?to= tip pages
+  root.classList.toggle("hidden", isCustomRecipient());
+  if (isCustomRecipient() || running) return;
+
+  running = true;
+  let pending = false;
+  try {
+    const owner = new PublicKey(await ensureRecipient());
+    const goals = CONFIG.TIP_GOALS.map((g) => ({ goal: g, token: findTipToken(getCluster(), g.token) }));
+    const states: Array<GoalState | null> = goals.map(() => null);
+    const paint = () => (root.innerHTML = goals.map((g, i) => renderGoal(g.goal, g.token, states[i])).join(""));
+    paint();
+    for (const [i, g] of goals.entries()) {
+      if (!g.token) continue;
+      try {
+        states[i] = await updateGoal(g.goal, owner, g.token);
+        pending ||= !states[i]!.done;
+      } catch (e) {
+        console.warn("[Goals] update failed:", g.goal.title, e);
+      }
+      paint();
+    }
+  } catch (e) {
+    console.warn("[Goals] refresh failed:", e);
+  } finally {
+    running = false;
+    schedule(pending ? BACKFILL_MS : REFRESH_MS);
+  }
+}
+
+export function initGoals() {
+  if (!CONFIG.TIP_GOALS.length) return;
+  window.addEventListener("stonky:clusterChanged", () => void refreshGoals());
+  window.addEventListener("stonky:recipientChanged", () => void refreshGoals());
+  // a tip of ours just landed → count it now instead of at the next tick
+  window.addEventListener("stonky:txProgress", (e: any) => {
+    if (e?.detail?.phase === "confirm:confirmed" && e.detail.flow === "tip") schedule(3_000);
+  });
+  void refreshGoals();
+}
@@ -0,0 +1,408 @@
+// src/components/history.ts
+// Full tip history: every tip the recipient received, not just the feed's last 10.
+// - Pages getSignaturesForAddress backwards (`before` cursors) on the wallet and each tip-token
+//   account, merged newest-first by slot; transactions are parsed with the feed's tipsFromTx
+// - All RPC reads go through withFailover; transactions are fetched in small batches with a
+//   pause in between so long backfills stay under public-RPC rate limits
+// - Filters (date range, sender, token, amount) apply to what has been loaded; "Load all in
+//   range" keeps paging until the from-date is passed (or the history ends / Stop is pressed)
+// - Export: CSV / JSON of the filtered rows with exact amounts (not the feed's rounded ones)
+
+import type { ConfirmedSignatureInfo, PublicKey } from "@solana/web3.js";
+import { CONFIG } from "./config";
+import { ensureRecipient, explorerTxUrl, getCluster, isCustomRecipient, recipientLabel, tipAddresses, tipsFromTx } from "./solana";
+import type { RecentTip } from "./solana";
+import { withFailover } from "./rpc";
+import { getTransactionCached } from "./rpccache";
+import { formatUnits } from "./tokens";
+import { closeModal, openModal } from "./modal";
+
+export type HistoryRow = {
+  signature: string;
+  sender: string;
+  amount: string; // exact, in `symbol`
+  symbol: string;
+  mint: string; // "" for SOL
+  blockTime: number; // unix seconds (0 if the RPC didn't report one)
+  memo: string;
+};
+
+export type HistoryFilter = {
+  from?: number; // unix seconds, inclusive
+  to?: number; // unix seconds, exclusive
+  sender?: string;
+  symbol?: string;
+  min?: number;
+  max?: number;
+};
+
+type Cursor = {
+  address: PublicKey;
+  before?: string;
+  buffer: ConfirmedSignatureInfo[];
+  done: boolean;
+};
+
+const PAGE_SIZE = 100; // signatures per getSignaturesForAddress call
+const TIPS_PER_LOAD = 50; // signatures parsed per "Load more"
+const TX_BATCH = 5;
+const BATCH_PAUSE_MS = 250;
+const BACKDROP_ID = "tip-history-backdrop";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// -------------------- rows + filters (pure) --------------------
+export function toHistoryRow(t: RecentTip): HistoryRow {
+  return {
+    signature: t.sig,
+    sender: t.from,
+    amount: formatUnits(BigInt(t.raw), t.decimals, t.decimals),
+    symbol: t.symbol,
+    mint: t.mint ?? "",
+    blockTime: t.when,
+    memo: t.memo ?? "",
+  };
+}
+
+export function filterRows(rows: HistoryRow[], f: HistoryFilter): HistoryRow[] {
+  const sender = f.sender?.trim();
+  return rows.filter((r) => {
+    if (f.from != null && r.blockTime < f.from) return false;
+    if (f.to != null && r.blockTime >= f.to) return false;
+    if (sender && !r.sender.includes(sender)) return false;
+    if (f.symbol && r.symbol !== f.symbol) return false;
+    const amount = Number(r.amount);
+    if (f.min != null && amount < f.min) return false;
+    if (f.max != null && amount > f.max) return false;
+    return true;
+  });
+}
+
+const CSV_COLUMNS: Array<keyof HistoryRow | "isoTime"> = [
+  "signature",
+  "sender",
+  "amount",
+  "symbol",
+  "mint",
+  "blockTime",
+  "isoTime",
+  "memo",
+];
+
+// Memos are user-written: quote every field and defuse spreadsheet formulas (=, +, -, @)
+function csvField(v: string | number, text: boolean): string {
+  let s = String(v);
+  if (text && /^[=+\-@\t\r]/.test(s)) s = "'" + s;
+  return `"${s.replace(/"/g, '""')}"`;
+}
+
+function isoTime(ts: number) {
+  return ts ? new Date(ts * 1000).toISOString() : "";
+}
+
+export function toCsv(rows: HistoryRow[]): string {
+  const lines = rows.map((r) =>
+    CSV_COLUMNS.map((c) =>
+      c === "isoTime" ? csvField(isoTime(r.blockTime), false) : csvField(r[c], c === "memo" || c === "symbol")
+    ).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+export function toJson(rows: HistoryRow[]): string {
+  return JSON.stringify(rows.map((r) => ({ ...r, isoTime: isoTime(r.blockTime) })), null, 2);
+}
+
+// -------------------- paging --------------------
+export type HistoryPager = {
+  next(n?: number): Promise<RecentTip[]>;
+  readonly done: boolean;
+  readonly oldest: number; // blockTime of the oldest signature parsed so far (Infinity before)
+};
+
+/**
+ * Backwards pager over the recipient's wallet + token accounts. Each `next()` parses up to `n`
+ * more signatures (newest first across all addresses) and returns the tips found in them.
+ */
+export function createHistoryPager(): HistoryPager {
+  let cursors: Cursor[] = [];
+  let recipient = "";
+  let ready: Promise<void> | null = null;
+  let oldest = Infinity;
+  const seen = new Set<string>();
+
+  const init = () =>
+    (ready ??= (async () => {
+      recipient = await ensureRecipient();
+      const { owner, atas } = await tipAddresses();
+      cursors = [owner, ...atas].map((address) => ({ address, buffer: [], done: false }));
+    })());
+
+  async function refill(c: Cursor) {
+    const page = await withFailover(
+      (conn) => conn.getSignaturesForAddress(c.address, { before: c.before, limit: PAGE_SIZE }, "confirmed"),
+      "getSignaturesForAddress(history)"
+    );
+    c.buffer.push(...page);
+    if (page.length) c.before = page[page.length - 1].signature;
+    if (page.length < PAGE_SIZE) c.done = true;
+  }
+
+  // Newest unseen signatures across all cursors. Every cursor that isn't exhausted is refilled
+  // before comparing, so an older page on one address never jumps ahead of a newer one elsewhere.
+  async function nextSignatures(n: number): Promise<ConfirmedSignatureInfo[]> {
+    const out: ConfirmedSignatureInfo[] = [];
+    while (out.length < n) {
+      for (const c of cursors) if (!c.buffer.length && !c.done) await refill(c);
+      const live = cursors.filter((c) => c.buffer.length);
+      if (!live.length) break;
+      const head = live.reduce((a, b) => ((b.buffer[0].slot || 0) > (a.buffer[0].slot || 0) ? b : a));
+      const s = head.buffer.shift()!;
+      if (seen.has(s.signature)) continue;
+      seen.add(s.signature);
+      if (s.blockTime) oldest = Math.min(oldest, s.blockTime);
+      if (!s.err) out.push(s);
+    }
+    return out;
+  }
+
+  return {
+    get done() {
+      return cursors.length > 0 && cursors.every((c) => c.done && !c.buffer.length);
+    },
+    get oldest() {
+      return oldest;
+    },
+    async next(n = TIPS_PER_LOAD) {
+      await init();
+      const sigs = await nextSignatures(n);
+      // split tips count the collaborators' shares, like the feed
+      const splits = isCustomRecipient() ? [] : CONFIG.TIP_SPLITS;
+      const out: RecentTip[] = [];
+      for (let i = 0; i < sigs.length; i += TX_BATCH) {
+        if (i) await sleep(BATCH_PAUSE_MS);
+        const txs = await Promise.all(sigs.slice(i, i + TX_BATCH).map((s) => getTransactionCached(s.signature)));
+        for (const tx of txs) if (tx) out.push(...tipsFromTx(tx, recipient, splits));
+      }
+      return out;
+    },
+  };
+}
+
+// -------------------- UI --------------------
+let pager: HistoryPager | null = null;
+let rows: HistoryRow[] = [];
+let busy = false;
+let stopRequested = false;
+
+function escapeHtml(s?: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
+const short = (a: string) => `${a.slice(0, 4)}…${a.slice(-4)}`;
+
+function $(id: string) {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+function ensureBackdrop(): HTMLElement {
+  let el = document.getElementById(BACKDROP_ID);
+  if (el) return el;
+  const input = "bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs focus-glow";
+  const btn = "px-3 py-1.5 rounded-lg border border-white/15 bg-white/10 text-xs hover:bg-white/15 transition focus-glow";
+  el = document.createElement("div");
+  el.id = BACKDROP_ID;
+  el.className = "hidden fixed inset-0 z-50 bg-black/60 p-4 overflow-y-auto";
+  el.innerHTML = `
+    <div class="glass max-w-3xl mx-auto mt-10 rounded-2xl p-5 relative">
+      <button id="history-close" class="absolute right-3 top-3 text-white/70 hover:text-white focus-glow">✕</button>
+      <h3 class="text-lg font-semibold mb-3">Tip history <span id="history-for" class="text-sm text-white/60"></span></h3>
+      <form id="history-filters" class="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-3">
+        <label class="grid gap-1 text-[11px] text-white/60">From<input id="history-from" type="date" class="${input}" /></label>
+        <label class="grid gap-1 text-[11px] text-white/60">To<input id="history-to" type="date" class="${input}" /></label>
+        <label class="grid gap-1 text-[11px] text-white/60">Sender<input id="history-sender" placeholder="address" class="${input} font-mono" /></label>
+        <label class="grid gap-1 text-[11px] text-white/60">Token<select id="history-symbol" class="${input}"><option value="">All</option></select></label>
+        <label class="grid gap-1 text-[11px] text-white/60">Min amount<input id="history-min" type="number" min="0" step="any" class="${input}" /></label>
+        <label class="grid gap-1 text-[11px] text-white/60">Max amount<input id="history-max" type="number" min="0" step="any" class="${input}" /></label>
+      </form>
+      <div class="flex flex-wrap items-center gap-2 mb-3">
+        <button id="history-more" type="button" class="${btn}">Load more</button>
+        <button id="history-all" type="button" class="${btn}">Load all in range</button>
+        <button id="history-stop" type="button" class="${btn} hidden">Stop</button>
+        <span class="ml-auto flex gap-2">
+          <button id="history-csv" type="button" class="${btn}">Export CSV</button>
+          <button id="history-json" type="button" class="${btn}">Export JSON</button>
+        </span>
+      </div>
+      <div id="history-status" class="text-[11px] text-white/50 mb-2" aria-live="polite"></div>
+      <div class="max-h-[60vh] overflow-y-auto rounded-lg border border-white/10">
+        <table class="w-full text-xs">
+          <thead class="text-white/60 text-left sticky top-0 bg-black/60">
+            <tr><th class="px-2 py-1">Time</th><th class="px-2 py-1">Sender</th><th class="px-2 py-1 text-right">Amount</th><th class="px-2 py-1">Memo</th></tr>
+          </thead>
+          <tbody id="history-rows"></tbody>
+        </table>
+      </div>
+    </div>`;
+  document.body.appendChild(el);
+
+  el.addEventListener("click", (e) => {
+    if (e.target === el) closeTipHistory();
+  });
+  $("history-close").onclick = closeTipHistory;
+  $("history-filters").addEventListener("input", render);
+  $("history-filters").addEventListener("submit", (e) => e.preventDefault());
+  $("history-more").onclick = () => void load(false);
+  $("history-all").onclick = () => void load(true);
+  $("history-stop").onclick = () => (stopRequested = true);
+  $("history-csv").onclick = () => download("csv");
+  $("history-json").onclick = () => download("json");
+  return el;
+}
+
+function dateSec(id: string, endOfDay = false): number | undefined {
+  const v = $(id).value;
+  if (!v) return undefined;
+  const [y, m, d] = v.split("-").map(Number);
+  return new Date(y, m - 1, d + (endOfDay ? 1 : 0)).getTime() / 1000; // local days, like the inputs
+}
+
+function numberOr(id: string): number | undefined {
+  const v = $(id).value.trim();
+  return v && Number.isFinite(Number(v)) ? Number(v) : undefined;
+}
+
+function currentFilter(): HistoryFilter {
+  return {
+    from: dateSec("history-from"),
+    to: dateSec("history-to", true),
+    sender: $("history-sender").value,
+    symbol: $("history-symbol").value || undefined,
+    min: numberOr("history-min"),
+    max: numberOr("history-max"),
+  };
+}
+
+function status() {
+  const shown = filterRows(rows, currentFilter()).length;
+  const until = pager && Number.isFinite(pager.oldest) ? ` · loaded back to ${new Date(pager.oldest * 1000).toLocaleDateString()}` : "";
+  const end = pager?.done ? " · end of history" : "";
+  return `${shown} of ${rows.length} tips${until}${end}${busy ? " · loading…" : ""}`;
+}
+
+function render() {
+  const body = document.getElementById("history-rows");
+  if (!body) return;
+  const shown = filterRows(rows, currentFilter());
+
+  const select = document.getElementById("history-symbol") as HTMLSelectElement;
+  const symbols = [...new Set(rows.map((r) => r.symbol))];
+  for (const s of symbols) {
+    if (![...select.options].some((o) => o.value === s)) select.add(new Option(s, s));
+  }
+
+  body.innerHTML = shown.length
+    ? shown
+        .map(
+          (r) => `<tr class="border-t border-white/5">
+            <td class="px-2 py-1 whitespace-nowrap"><a class="underline decoration-white/20" href="${explorerTxUrl(r.signature)}" target="_blank" rel="noopener">${r.blockTime ? new Date(r.blockTime * 1000).toLocaleString() : "—"}</a></td>
+            <td class="px-2 py-1 font-mono" title="${escapeHtml(r.sender)}">${short(r.sender)}</td>
+            <td class="px-2 py-1 text-right font-mono whitespace-nowrap">${escapeHtml(r.amount)} ${escapeHtml(r.symbol)}</td>
+            <td class="px-2 py-1 break-all text-white/70">${escapeHtml(r.memo)}</td>
+          </tr>`
+        )
+        .join("")
+    : `<tr><td colspan="4" class="px-2 py-3 text-center text-white/60">${busy ? "Loading…" : "No tips match these filters."}</td></tr>`;
+
+  document.getElementById("history-status")!.textContent = status();
+  $("history-more").disabled = busy || !!pager?.done;
+  $("history-all").disabled = busy || !!pager?.done;
+  $("history-stop").classList.toggle("hidden", !busy);
+}
+
+/** One page, or (`all`) pages until the from-date is passed. */
+async function load(all: boolean) {
+  if (busy) return;
+  pager ??= createHistoryPager();
+  const p = pager;
+  busy = true;
+  stopRequested = false;
+  render();
+  let failed = false;
+  try {
+    do {
+      const tips = await p.next();
+      if (p !== pager) return; // reset (cluster / recipient changed) while loading
+      rows.push(...tips.map(toHistoryRow));
+      render();
+      const from = currentFilter().from;
+      if (from != null && p.oldest < from) break;
+    } while (all && !p.done && !stopRequested);
+  } catch (e) {
+    console.warn("[History] load failed:", e);
+    failed = true;
+  } finally {
+    if (p === pager) busy = false;
+  }
+  if (p !== pager) return;
+  render();
+  if (failed) document.getElementById("history-status")!.textContent = "Couldn't load more history right now — try again.";
+}
+
+function download(kind: "csv" | "json") {
+  const shown = filterRows(rows, currentFilter());
+  const blob =
+    kind === "csv"
+      ? new Blob([toCsv(shown)], { type: "text/csv;charset=utf-8" })
+      : new Blob([toJson(shown)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `tips-${getCluster()}-${new Date().toISOString().slice(0, 10)}.${kind}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
+
+function reset() {
+  pager = null;
+  rows = [];
+  busy = false;
+  stopRequested = true;
+  const select = document.getElementById("history-symbol") as HTMLSelectElement | null;
+  if (select) select.length = 1;
+  render();
+}
+
+export async function openTipHistory() {
+  ensureBackdrop();
+  openModal(BACKDROP_ID);
+  try {
+    document.getElementById("history-for")!.textContent = `· ${recipientLabel(await ensureRecipient())}`;
+  } catch {
+    /* label is cosmetic */
+  }
+  render();
+  if (!rows.length && !busy) void load(false);
+}
+
+export function closeTipHistory() {
+  stopRequested = true;
+  closeModal(BACKDROP_ID);
+}
+
+export function initTipHistory() {
+  const feed = document.getElementById("tip-feed-inline");
+  if (feed && !document.getElementById("tip-history-open")) {
+    const btn = document.createElement("button");
+    btn.id = "tip-history-open";
+    btn.type = "button";
+    btn.className = "mt-2 text-xs text-white/60 underline hover:text-white focus-glow";
+    btn.textContent = "Full history & export";
+    btn.onclick = () => void openTipHistory();
+    feed.insertAdjacentElement("afterend", btn);
+  }
+  window.addEventListener("stonky:clusterChanged", reset);
+  window.addEventListener("stonky:recipientChanged", reset);
+}
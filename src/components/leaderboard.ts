@@ -0,0 +1,275 @@
+// src/components/leaderboard.ts
+// Top tippers (all-time / this month / this week) from inbound SOL transfers to the owner.
+// - Large histories: public/feed/leaderboard.json, built by the feed indexer (scripts/indexer)
+//   (all-time totals + the last ~5 weeks of events, so week/month windows are computed here)
+// - Small histories / no static file: the owner's recent signatures are scanned client-side
+// Rules (tipevents.ts): plain SOL transfers to the owner outside feed transactions are tips from
+// the sending wallet; SOL the owner transfers back to an earlier tipper counts as a refund against
+// that tipper (net never below zero); equal totals share a rank. Token tips are not ranked.
+
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { accountKeysOf, ensureRecipient, getCluster } from "./solana";
+import { withFailover } from "./rpc";
+import { getTransactionCached } from "./rpccache";
+import { favoriteDomain } from "./sns";
+import { tipEventsOf, tipTxOf } from "./tipevents";
+import type { TipEvent } from "./tipevents";
+
+export type { TipEvent };
+
+export type LeaderEntry = {
+  address: string;
+  lamports: number;
+  tips: number;
+  first: number;
+  last: number;
+  rank: number; // 1-based, shared on ties ("1, 2, 2, 4")
+};
+
+export type Period = "all" | "month" | "week";
+
+// Shape of public/feed/leaderboard.json
+export type StaticLeaderboard = {
+  v: 1;
+  updated: number; // ms
+  owner: string;
+  cluster: "mainnet" | "devnet";
+  allTime: Omit<LeaderEntry, "rank">[];
+  recent: TipEvent[];
+};
+
+const STATIC_PATH = "feed/leaderboard.json";
+const CLIENT_MAX_TXS = 200;
+const TX_BATCH = 5;
+const TOP_N = 10;
+const CACHE_MS = 5 * 60_000;
+const ROOT_ID = "tip-leaderboard";
+
+const PERIODS: Array<{ id: Period; label: string }> = [
+  { id: "all", label: "All-time" },
+  { id: "month", label: "This month" },
+  { id: "week", label: "This week" },
+];
+
+// -------------------- aggregation (pure) --------------------
+export function periodStart(period: Period, now = Date.now()): number {
+  if (period === "all") return 0;
+  const d = new Date(now);
+  if (period === "month") return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1) / 1000;
+  const monday = (d.getUTCDay() + 6) % 7; // weeks start Monday (UTC)
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - monday) / 1000;
+}
+
+export function rankEntries(entries: Omit<LeaderEntry, "rank">[]): LeaderEntry[] {
+  const sorted = entries
+    .filter((e) => e.lamports > 0)
+    .sort((a, b) => b.lamports - a.lamports || a.first - b.first || a.address.localeCompare(b.address));
+  let rank = 0;
+  return sorted.map((e, i) => {
+    if (i === 0 || sorted[i - 1].lamports !== e.lamports) rank = i + 1;
+    return { ...e, rank };
+  });
+}
+
+/**
+ * Net totals per tipper for events at or after `since` (unix seconds): tips minus refunds,
+ * floored at zero. Order-independent, so the indexer can add history in any order.
+ */
+export function aggregate(events: TipEvent[], since = 0): LeaderEntry[] {
+  const by = new Map<string, Omit<LeaderEntry, "rank"> & { refunded: number }>();
+  for (const e of events) {
+    if (e.ts < since) continue;
+    let cur = by.get(e.from);
+    if (!cur) {
+      cur = { address: e.from, lamports: 0, refunded: 0, tips: 0, first: Infinity, last: 0 };
+      by.set(e.from, cur);
+    }
+    if (e.lamports < 0) {
+      cur.refunded -= e.lamports;
+      continue;
+    }
+    cur.lamports += e.lamports;
+    cur.tips += 1;
+    cur.first = Math.min(cur.first, e.ts);
+    cur.last = Math.max(cur.last, e.ts);
+  }
+  return rankEntries(
+    [...by.values()]
+      .filter((e) => e.tips > 0) // refunds to wallets that never tipped don't count
+      .map(({ refunded, ...e }) => ({ ...e, lamports: Math.max(0, e.lamports - refunded) }))
+  );
+}
+
+// -------------------- sources --------------------
+type Board = Record<Period, LeaderEntry[]> & {
+  source: "static" | "client";
+  partial: boolean; // client scan stopped at CLIENT_MAX_TXS
+};
+
+let cached: { key: string; at: number; board: Board } | null = null;
+
+async function loadStatic(owner: string): Promise<StaticLeaderboard | null> {
+  const base = ((import.meta as any).env?.BASE_URL || "/").replace(/\/?$/, "/");
+  try {
+    const res = await fetch(base + STATIC_PATH, { cache: "no-cache" });
+    if (!res.ok || !(res.headers.get("content-type") || "").includes("application/json")) return null;
+    const data = (await res.json()) as StaticLeaderboard;
+    return data?.v === 1 && data.owner === owner && data.cluster === getCluster() ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function scanClient(owner: string): Promise<{ events: TipEvent[]; partial: boolean }> {
+  const sigs: string[] = [];
+  let before: string | undefined;
+  while (sigs.length < CLIENT_MAX_TXS) {
+    const page = await withFailover(
+      (c) => c.getSignaturesForAddress(new PublicKey(owner), { before, limit: 100 }),
+      "getSignaturesForAddress"
+    );
+    sigs.push(...page.filter((s) => !s.err).map((s) => s.signature));
+    if (page.length < 100) return { events: await eventsOf(sigs, owner), partial: false };
+    before = page[page.length - 1].signature;
+  }
+  return { events: await eventsOf(sigs.slice(0, CLIENT_MAX_TXS), owner), partial: true };
+}
+
+async function eventsOf(sigs: string[], owner: string): Promise<TipEvent[]> {
+  const txs: any[] = [];
+  for (let i = 0; i < sigs.length; i += TX_BATCH) {
+    txs.push(...(await Promise.all(sigs.slice(i, i + TX_BATCH).map((s) => getTransactionCached(s)))));
+  }
+  // oldest first: a refund only counts against a wallet that tipped before it
+  const tipped = new Set<string>();
+  return txs
+    .filter(Boolean)
+    .sort((a, b) => a.slot - b.slot)
+    .flatMap((tx) => tipEventsOf(tipTxOf(tx, accountKeysOf(tx), tx.transaction.signatures[0]), owner, tipped));
+}
+
+export async function loadLeaderboard(owner: string): Promise<Board> {
+  const key = `${getCluster()}:${owner}`;
+  if (cached && cached.key === key && Date.now() - cached.at < CACHE_MS) return cached.board;
+
+  let board: Board;
+  const stat = await loadStatic(owner);
+  if (stat) {
+    board = {
+      all: rankEntries(stat.allTime),
+      month: aggregate(stat.recent, periodStart("month")),
+      week: aggregate(stat.recent, periodStart("week")),
+      source: "static",
+      partial: false,
+    };
+  } else {
+    const { events, partial } = await scanClient(owner);
+    board = {
+      all: aggregate(events),
+      month: aggregate(events, periodStart("month")),
+      week: aggregate(events, periodStart("week")),
+      source: "client",
+      partial,
+    };
+  }
+  cached = { key, at: Date.now(), board };
+  return board;
+}
+
+// -------------------- UI --------------------
+let period: Period = "all";
+
+const short = (a: string) => `${a.slice(0, 4)}…${a.slice(-4)}`;
+
+function ensureRoot(): HTMLElement | null {
+  let el = document.getElementById(ROOT_ID);
+  if (el) return el;
+  const feed = document.getElementById("tip-feed-inline");
+  if (!feed) return null;
+  el = document.createElement("details");
+  el.id = ROOT_ID;
+  el.className = "mt-4 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm";
+  el.innerHTML = `
+    <summary class="cursor-pointer font-semibold">🏆 Top tippers</summary>
+    <div class="inline-flex rounded-lg border border-white/10 overflow-hidden text-xs mt-2" role="tablist">
+      ${PERIODS.map(
+        (p) => `<button type="button" role="tab" data-period="${p.id}" class="px-2 py-1 hover:bg-white/10">${p.label}</button>`
+      ).join("")}
+    </div>
+    <ol id="leaderboard-list" class="grid gap-1 mt-2"></ol>
+    <div id="leaderboard-note" class="text-[11px] text-white/50 mt-1"></div>`;
+  feed.insertAdjacentElement("afterend", el);
+
+  el.addEventListener("toggle", () => {
+    if ((el as HTMLDetailsElement).open) void renderLeaderboard();
+  });
+  el.querySelectorAll<HTMLButtonElement>("[data-period]").forEach((b) => {
+    b.onclick = () => {
+      period = b.dataset.period as Period;
+      void renderLeaderboard();
+    };
+  });
+  return el;
+}
+
+// Reverse names fill in after the list is on screen (each lookup is cached in sns.ts)
+async function fillNames(list: HTMLElement) {
+  for (const el of list.querySelectorAll<HTMLElement>("[data-addr]")) {
+    try {
+      const name = await favoriteDomain(el.dataset.addr!);
+      if (name) el.textContent = name;
+    } catch {
+      /* keep the short key */
+    }
+  }
+}
+
+export async function renderLeaderboard() {
+  const root = ensureRoot();
+  const list = document.getElementById("leaderboard-list");
+  const note = document.getElementById("leaderboard-note");
+  if (!root || !list || !note || !(root as HTMLDetailsElement).open) return;
+
+  root.querySelectorAll<HTMLButtonElement>("[data-period]").forEach((b) => {
+    const on = b.dataset.period === period;
+    b.classList.toggle("bg-white/15", on);
+    b.setAttribute("aria-selected", String(on));
+  });
+  list.innerHTML = `<li class="text-white/60 text-xs">Loading…</li>`;
+  note.textContent = "";
+
+  try {
+    const board = await loadLeaderboard(await ensureRecipient());
+    const rows = board[period].slice(0, TOP_N);
+    list.innerHTML = rows.length
+      ? rows
+          .map(
+            (e) => `<li class="flex items-center justify-between gap-2">
+              <span><span class="inline-block w-6 text-white/50">#${e.rank}</span><span data-addr="${e.address}" title="${e.address}">${short(e.address)}</span></span>
+              <span class="font-mono text-xs">${(e.lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL <span class="text-white/50">(${e.tips})</span></span>
+            </li>`
+          )
+          .join("")
+      : `<li class="text-white/60 text-xs">No tips in this period yet.</li>`;
+    note.textContent =
+      board.source === "static"
+        ? "From the indexed history (refunds netted out)."
+        : board.partial
+        ? `From the last ${CLIENT_MAX_TXS} transactions only.`
+        : "From the full on-chain history (refunds netted out).";
+    void fillNames(list);
+  } catch (e) {
+    console.warn("[Leaderboard] load failed:", e);
+    list.innerHTML = `<li class="text-white/60 text-xs">Couldn't load the leaderboard right now.</li>`;
+  }
+}
+
+export function initLeaderboard() {
+  ensureRoot();
+  const rerender = () => {
+    cached = null;
+    void renderLeaderboard();
+  };
+  window.addEventListener("stonky:clusterChanged", rerender);
+  window.addEventListener("stonky:recipientChanged", rerender);
+}
@@ -1,6 +1,8 @@
 // src/components/library.ts
 // Local per-wallet library for downloaded memes. No backend.
 
+import { legacyLikeMemo } from "./memoproto";
+
 type MemeRecord = {
   id: string;                 // sha256 of (tpl|lines|wm|src-type)
   tpl?: string;               // memegen template key
@@ -108,7 +110,7 @@ function render() {
         url.searchParams.set("amount", String(0.0001));
         url.searchParams.set("label", "Like this meme");
         url.searchParams.set("message", "Thanks for the meme!");
-        url.searchParams.set("memo", `LIKE:${rec.id}`);
+        url.searchParams.set("memo", legacyLikeMemo(rec.id)); // payer unknown until the wallet signs
         window.open(url.toString(), "_blank");
       }
     });
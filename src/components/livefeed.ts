@@ -0,0 +1,129 @@
+// src/components/livefeed.ts
+// Live tip notifications over websockets.
+// - onLogs (mentions) on the recipient wallet → SOL tips
+// - onAccountChange on the recipient's token accounts → SPL tips
+// - Endpoint comes from the shared pool (rpc.ts); re-subscribes when the pool rotates
+//   or the recipient route changes (#/alice.sol → #/bob.sol)
+// - If the socket can't open (corporate proxy, provider without WS), reports "polling"
+//   and the caller keeps its timer-based refresh
+
+import { Connection } from "@solana/web3.js";
+import { bestEndpoint, onRpcChange, wsEndpointFor } from "./rpc";
+import { tipAddresses } from "./solana";
+
+export type LiveStatus = "connecting" | "live" | "polling";
+
+type Subscription = {
+  conn: Connection;
+  logs: number[];
+  accounts: number[];
+};
+
+const PROBE_TIMEOUT_MS = 6_000;
+
+// A bare WebSocket open tells us quickly whether the endpoint is reachable at all;
+// web3.js would otherwise retry silently forever.
+function probeWs(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch {
+      return resolve(false);
+    }
+    const done = (ok: boolean) => {
+      window.clearTimeout(timer);
+      ws.onopen = ws.onerror = null;
+      try {
+        ws.close();
+      } catch {
+        /* already closed */
+      }
+      resolve(ok);
+    };
+    const timer = window.setTimeout(() => done(false), PROBE_TIMEOUT_MS);
+    ws.onopen = () => done(true);
+    ws.onerror = () => done(false);
+  });
+}
+
+async function unsubscribe(sub: Subscription | null) {
+  if (!sub) return;
+  await Promise.all([
+    ...sub.logs.map((id) => sub.conn.removeOnLogsListener(id).catch(() => {})),
+    ...sub.accounts.map((id) => sub.conn.removeAccountChangeListener(id).catch(() => {})),
+  ]);
+}
+
+/**
+ * Calls `onActivity` whenever something lands on the tip addresses.
+ * Returns a stop function.
+ */
+export function startLiveTips(
+  onActivity: (sig?: string) => void,
+  onStatus: (s: LiveStatus) => void
+): () => void {
+  let sub: Subscription | null = null;
+  let generation = 0;
+  let stopped = false;
+
+  async function connect(httpUrl: string) {
+    const gen = ++generation;
+    const old = sub;
+    sub = null;
+    await unsubscribe(old);
+
+    onStatus("connecting");
+    let wsUrl: string;
+    try {
+      wsUrl = wsEndpointFor(httpUrl);
+    } catch (e) {
+      console.warn("[LiveFeed] bad endpoint:", httpUrl, e);
+      onStatus("polling");
+      return;
+    }
+
+    const ok = await probeWs(wsUrl);
+    if (gen !== generation || stopped) return; // rotated again while probing
+    if (!ok) {
+      console.warn("[LiveFeed] websocket unavailable, falling back to polling:", wsUrl.split("?")[0]);
+      onStatus("polling");
+      return;
+    }
+
+    try {
+      const conn = new Connection(httpUrl, { commitment: "confirmed", wsEndpoint: wsUrl });
+      const { owner, atas } = await tipAddresses();
+      const next: Subscription = { conn, logs: [], accounts: [] };
+      next.logs.push(
+        conn.onLogs(owner, (l) => { if (!l.err) onActivity(l.signature); }, "confirmed")
+      );
+      for (const ata of atas) {
+        next.accounts.push(conn.onAccountChange(ata, () => onActivity(), "confirmed"));
+      }
+      if (gen !== generation || stopped) {
+        await unsubscribe(next);
+        return;
+      }
+      sub = next;
+      onStatus("live");
+    } catch (e) {
+      console.warn("[LiveFeed] subscribe failed:", e);
+      onStatus("polling");
+    }
+  }
+
+  const off = onRpcChange((url) => void connect(url));
+  const onRecipient = () => void connect(bestEndpoint());
+  window.addEventListener("stonky:recipientChanged", onRecipient);
+  void connect(bestEndpoint());
+
+  return () => {
+    stopped = true;
+    generation++;
+    off();
+    window.removeEventListener("stonky:recipientChanged", onRecipient);
+    void unsubscribe(sub);
+    sub = null;
+  };
+}
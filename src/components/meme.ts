@@ -4,6 +4,7 @@
 // + Safe downloads (CORS), record/publish events, open-from-external support.
 
 import { CONFIG } from "./config"; // adjust if your config path differs
+import { getWallet } from "./wallet";
 
 type TplRaw = {
   key?: string;
@@ -318,7 +319,7 @@ function initLocalCanvasMode() {
       detail: {
         source: "upload",
         wm: ACTIVE_WM,
-        creator: (window as any).solana?.publicKey?.toBase58?.() || "",
+        creator: getWallet()?.publicKey?.toBase58() || "",
         dataUrl,
       }
     }));
@@ -587,7 +588,7 @@ async function initApiTemplateMode() {
           tpl: _apiSelectedId,
           lines: _apiGetLines?.() || [],
           wm: ACTIVE_WM,
-          creator: (window as any).solana?.publicKey?.toBase58?.() || "",
+          creator: getWallet()?.publicKey?.toBase58() || "",
           finalUrl: url,
           thumb: preview.src,
         }
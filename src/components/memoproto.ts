@@ -0,0 +1,268 @@
+// src/components/memoproto.ts
+// Memo protocol: the post / like / moderation payloads written to the registry and the tip memo format.
+// Shared by the client (discover.ts, library.ts, tipjar.ts, solana.ts), the Netlify functions
+// and the feed indexer (scripts/indexer), so every reader accepts exactly what writers send.
+//
+// Feed payloads are JSON in one Memo instruction, at most MEMO_MAX_BYTES of UTF-8:
+// - v1: {"v":1,"t":"post","url","author",cid?,cap?,k?,l?,wm?}
+//       {"v":1,"t":"like","c","amt",cid?,id?,to?,x?}
+//       {"v":1,"t":"mod","act":"hide"|"unhide","post"} / {"v":1,"t":"mod","act":"block"|"unblock","w"}, why?
+// - v2: the same fields with compact keys (what new posts and likes are written as)
+//       {"v":2,"t":"p","u":url,"a":author,"c":cid,"n":cap,"k","l","w":wm}
+//       {"v":2,"t":"l","f":liker,"a":amt,"c":cid,"i":id,"o":to,"x":1}
+//       {"v":2,"t":"m","a":act,"s":post,"w":wallet,"r":why}
+// - legacy: plain text "LIKE:<id>" (Solana Pay likes from the library); the liker is the fee payer
+// Decoding always yields the v1 shape (PostPayload / LikePayload / ModPayload), which is also what
+// feed pages store, so nothing downstream branches on the version. Who may send a mod action is
+// policy, not protocol (checkPayload() in feedpolicy.ts).
+
+import bs58 from "bs58";
+
+export const MEMO_MAX_BYTES = 566; // what one Memo instruction fits next to our transfers
+export const TIP_HANDLE_MAX = 32;
+export const TIP_MESSAGE_MAX = 140;
+const TIP_MEMO_MAX_BYTES = 300;
+
+const MAX_URL = 400;
+const MAX_TEXT = 280;
+const MAX_KEY = 120; // cid / legacy id / template key
+const MAX_LINES = 10;
+const LEGACY_LIKE = /^LIKE:([^\s]{1,120})$/;
+
+// -------------------- Payloads --------------------
+export type PostPayload = {
+  v: 1; t: "post";
+  // minimal web2/web3 pointer fields:
+  cid?: string;                 // optional IPFS CID
+  url: string;                  // http(s) or ipfs://
+  author: string;               // base58
+  cap?: string;                 // optional caption
+  // carry-through memegen extras so your editor can reconstruct:
+  k?: string; l?: string[]; wm?: string;
+};
+
+export type LikePayload = {
+  v: 1; t: "like";
+  id?: string;                  // legacy id (used by older clients)
+  cid?: string;                 // preferred: pointer to the post content
+  to?: string;                  // author base58 (missing on some legacy likes)
+  c: string;                    // liker base58
+  amt: number;                  // lamports paid by liker
+  x?: 1;                        // superlike marker
+};
+
+export type ModAction = "hide" | "unhide" | "block" | "unblock";
+
+export type ModPayload = {
+  v: 1; t: "mod";
+  act: ModAction;
+  post?: string;                // post signature (hide / unhide)
+  w?: string;                   // author base58 (block / unblock)
+  why?: string;                 // optional note for the moderation log
+};
+
+export type FeedPayload = PostPayload | LikePayload | ModPayload;
+export type MemoVersion = 1 | 2;
+export type Checked<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+export class MemoError extends Error {
+  code: "invalid" | "too_large";
+  constructor(code: MemoError["code"], message: string) {
+    super(message);
+    this.name = "MemoError";
+    this.code = code;
+  }
+}
+
+const utf8Length = (s: string) => new TextEncoder().encode(s).length;
+
+// -------------------- Validation --------------------
+export function isPubkey(v: unknown): v is string {
+  if (typeof v !== "string" || v.length < 32 || v.length > 44) return false;
+  try {
+    return bs58.decode(v).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+function isSignature(v: unknown): v is string {
+  if (typeof v !== "string" || v.length < 64 || v.length > 88) return false;
+  try {
+    return bs58.decode(v).length === 64;
+  } catch {
+    return false;
+  }
+}
+
+const isText = (v: unknown, max: number): v is string => typeof v === "string" && v.length > 0 && v.length <= max;
+const optional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+
+/** Checks a v1-shaped post; only known fields are copied, so a memo can't smuggle extra keys. */
+export function validatePost(j: any): Checked<PostPayload> {
+  if (!isText(j.url, MAX_URL) || !/^(https?|ipfs):\/\//i.test(j.url)) return { ok: false, reason: "post: bad url" };
+  if (!isPubkey(j.author)) return { ok: false, reason: "post: bad author" };
+  if (!optional(j.cid, (v) => isText(v, MAX_KEY))) return { ok: false, reason: "post: bad cid" };
+  if (!optional(j.cap, (v) => typeof v === "string" && v.length <= MAX_TEXT)) return { ok: false, reason: "post: bad cap" };
+  if (!optional(j.k, (v) => isText(v, MAX_KEY))) return { ok: false, reason: "post: bad k" };
+  if (!optional(j.l, (v) => Array.isArray(v) && v.length <= MAX_LINES && v.every((s) => typeof s === "string" && s.length <= MAX_TEXT))) {
+    return { ok: false, reason: "post: bad l" };
+  }
+  if (!optional(j.wm, (v) => typeof v === "string" && v.length <= MAX_KEY)) return { ok: false, reason: "post: bad wm" };
+
+  const value: PostPayload = { v: 1, t: "post", url: j.url, author: j.author };
+  if (j.cid !== undefined) value.cid = j.cid;
+  if (j.cap !== undefined) value.cap = j.cap;
+  if (j.k !== undefined) value.k = j.k;
+  if (j.l !== undefined) value.l = j.l;
+  if (j.wm !== undefined) value.wm = j.wm;
+  return { ok: true, value };
+}
+
+/** Checks a v1-shaped like (cid or legacy id required). */
+export function validateLike(j: any): Checked<LikePayload> {
+  if (!isPubkey(j.c)) return { ok: false, reason: "like: bad liker (c)" };
+  if (!optional(j.to, isPubkey)) return { ok: false, reason: "like: bad to" };
+  if (!optional(j.cid, (v) => isText(v, MAX_KEY)) || !optional(j.id, (v) => isText(v, MAX_KEY))) {
+    return { ok: false, reason: "like: bad cid/id" };
+  }
+  if (j.cid === undefined && j.id === undefined) return { ok: false, reason: "like: no cid or id" };
+  if (!Number.isSafeInteger(j.amt) || j.amt < 0) return { ok: false, reason: "like: bad amt" };
+  if (!optional(j.x, (v) => v === 1)) return { ok: false, reason: "like: bad x" };
+
+  const value: LikePayload = { v: 1, t: "like", c: j.c, amt: j.amt };
+  if (j.id !== undefined) value.id = j.id;
+  if (j.cid !== undefined) value.cid = j.cid;
+  if (j.to !== undefined) value.to = j.to;
+  if (j.x !== undefined) value.x = 1;
+  return { ok: true, value };
+}
+
+/** Checks a v1-shaped moderation action: hide/unhide name a post signature, block/unblock a wallet. */
+export function validateMod(j: any): Checked<ModPayload> {
+  const target = j.act === "hide" || j.act === "unhide" ? "post" : j.act === "block" || j.act === "unblock" ? "w" : null;
+  if (!target) return { ok: false, reason: "mod: bad act" };
+  if (target === "post" ? !isSignature(j.post) || j.w !== undefined : !isPubkey(j.w) || j.post !== undefined) {
+    return { ok: false, reason: "mod: bad target" };
+  }
+  if (!optional(j.why, (v) => typeof v === "string" && v.length <= MAX_TEXT)) return { ok: false, reason: "mod: bad why" };
+
+  const value: ModPayload = { v: 1, t: "mod", act: j.act };
+  if (target === "post") value.post = j.post;
+  else value.w = j.w;
+  if (j.why) value.why = j.why;
+  return { ok: true, value };
+}
+
+const validate = (j: any): Checked<FeedPayload> =>
+  j.t === "post" ? validatePost(j) : j.t === "like" ? validateLike(j) : validateMod(j);
+
+// -------------------- v2 key mapping --------------------
+const V2_KEYS = {
+  post: { url: "u", author: "a", cid: "c", cap: "n", k: "k", l: "l", wm: "w" },
+  like: { c: "f", amt: "a", cid: "c", id: "i", to: "o", x: "x" },
+  mod: { act: "a", post: "s", w: "w", why: "r" },
+} as const;
+const V2_TYPE = { post: "p", like: "l", mod: "m" } as const;
+
+function toV2(p: FeedPayload): Record<string, unknown> {
+  const out: Record<string, unknown> = { v: 2, t: V2_TYPE[p.t] };
+  for (const [long, short] of Object.entries(V2_KEYS[p.t])) {
+    const v = (p as any)[long];
+    if (v !== undefined) out[short] = v;
+  }
+  return out;
+}
+
+function fromV2(j: any): Record<string, unknown> | null {
+  const t = (Object.keys(V2_TYPE) as (keyof typeof V2_TYPE)[]).find((k) => V2_TYPE[k] === j.t);
+  if (!t) return null;
+  const out: Record<string, unknown> = { v: 1, t };
+  for (const [long, short] of Object.entries(V2_KEYS[t])) {
+    if (j[short] !== undefined) out[long] = j[short];
+  }
+  return out;
+}
+
+// -------------------- Encode / decode --------------------
+/**
+ * Memo text for a post / like / mod action. Validated with the same rules readers apply, so a client can't
+ * publish something the indexer drops. Throws MemoError ("invalid" / "too_large").
+ */
+export function encodeFeedMemo(payload: FeedPayload, version: MemoVersion = 2): string {
+  const checked = validate(payload);
+  if (!checked.ok) throw new MemoError("invalid", `Invalid memo (${checked.reason})`);
+  const p = checked.value;
+  const text = JSON.stringify(version === 2 ? toV2(p) : p);
+  const bytes = utf8Length(text);
+  if (bytes > MEMO_MAX_BYTES) {
+    throw new MemoError("too_large", `Memo is ${bytes} bytes; the limit is ${MEMO_MAX_BYTES} (shorten the caption or lines)`);
+  }
+  return text;
+}
+
+/**
+ * Post / like / mod action from memo text, any version. null → not a feed memo (someone else's, ignored);
+ * otherwise the validated payload or a rejection reason. `feePayer` fills the liker of legacy
+ * "LIKE:<id>" memos, which don't carry one (without it they're rejected).
+ */
+export function decodeFeedMemo(text: string, ctx: { feePayer?: string } = {}): Checked<FeedPayload> | null {
+  if (utf8Length(text) > MEMO_MAX_BYTES) return null;
+  const legacy = text.match(LEGACY_LIKE);
+  if (legacy) return validateLike({ c: ctx.feePayer, id: legacy[1], amt: 0 });
+
+  let j: any;
+  try {
+    j = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!j || typeof j !== "object") return null;
+  if (j.v === 1 && (j.t === "post" || j.t === "like" || j.t === "mod")) return validate(j);
+  if (j.v === 2) {
+    const v1 = fromV2(j);
+    return v1 ? validate(v1) : null;
+  }
+  return null;
+}
+
+/** Legacy like memo for payment links, where the payer (and so a v1/v2 like) isn't known yet. */
+export function legacyLikeMemo(id: string): string {
+  if (!LEGACY_LIKE.test(`LIKE:${id}`)) throw new MemoError("invalid", "Invalid like id");
+  return `LIKE:${id}`;
+}
+
+// -------------------- Tip memos --------------------
+// On-chain format: "from: @handle | message" (either part optional).
+export function formatTipMemo(handle?: string, message?: string): string | null {
+  const h = String(handle || "")
+    .replace(/^@+/, "")
+    .replace(/[^\w.-]/g, "")
+    .slice(0, TIP_HANDLE_MAX);
+  let chars = Array.from(
+    String(message || "")
+      .replace(/[\u0000-\u001f\u007f]/g, " ")
+      .trim()
+  ).slice(0, TIP_MESSAGE_MAX);
+  const build = () => {
+    const m = chars.join("");
+    if (h && m) return `from: @${h} | ${m}`;
+    if (h) return `from: @${h}`;
+    return m || null;
+  };
+  // stay well inside the Memo program's per-instruction budget (emoji are 4 bytes)
+  while (chars.length && utf8Length(build() || "") > TIP_MEMO_MAX_BYTES) {
+    chars = chars.slice(0, -1);
+  }
+  return build();
+}
+
+export function parseTipMemo(memo: string): { handle?: string; message?: string } {
+  const s = String(memo || "").trim();
+  const hit = s.match(/^from:\s*@?([\w.-]{1,32})\s*(?:\|\s*([\s\S]*))?$/);
+  if (hit) {
+    const message = (hit[2] || "").trim().slice(0, TIP_MESSAGE_MAX);
+    return { handle: hit[1], message: message || undefined };
+  }
+  return s ? { message: s.slice(0, TIP_MESSAGE_MAX) } : {};
+}
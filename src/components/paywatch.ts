@@ -0,0 +1,115 @@
+// src/components/paywatch.ts
+// Live payment detection for Solana Pay QR / deep-link tips.
+// Every link carries a fresh `reference` key; we poll getSignaturesForAddress(reference)
+// through withFailover, then check that the tx really paid the recipient the expected amount
+// (in split mode: every share, as tipShares() divides it for the transaction-request builder).
+
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { accountKeysOf, tokenDeltas, withFailover } from "./solana";
+import { tipShares } from "./tiptx";
+import type { TipSplit } from "./tiptx";
+import type { TipToken } from "./tokens";
+
+export type ExpectedPayment = {
+  recipient: string;
+  amount: number; // UI units of `token`
+  token: TipToken;
+  reference: string;
+  splits?: TipSplit[]; // split-mode transaction requests: the recipient only gets its share
+};
+
+export type WatchOptions = {
+  signal?: AbortSignal; // abort when the QR modal closes
+  timeoutMs?: number;
+  intervalMs?: number;
+};
+
+export class PaymentWatchError extends Error {
+  code: "timeout" | "cancelled" | "mismatch";
+  sig?: string;
+  constructor(code: PaymentWatchError["code"], message: string, sig?: string) {
+    super(message);
+    this.name = "PaymentWatchError";
+    this.code = code;
+    this.sig = sig;
+  }
+}
+
+export function newReference(): string {
+  return Keypair.generate().publicKey.toBase58();
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(t); resolve(); }, { once: true });
+  });
+
+// Did this tx move at least each share of `amount` (all of it without splits) of `token` into its wallet?
+export function paysEnough(tx: any, exp: ExpectedPayment): boolean {
+  if (!tx || tx.meta?.err) return false;
+  const want = new Map<string, bigint>();
+  for (const s of tipShares({ recipient: new PublicKey(exp.recipient), amount: exp.amount, token: exp.token, splits: exp.splits })) {
+    const k = s.recipient.toBase58();
+    want.set(k, (want.get(k) ?? 0n) + s.raw);
+  }
+  if (!want.size) return false;
+  const keys = exp.token.mint ? [] : accountKeysOf(tx);
+  return [...want].every(([address, raw]) => {
+    if (exp.token.mint) return tokenDeltas(tx, address).some((d) => d.mint === exp.token.mint && d.raw >= raw);
+    const i = keys.indexOf(address);
+    if (i < 0) return false;
+    const delta = (tx.meta?.postBalances?.[i] ?? 0) - (tx.meta?.preBalances?.[i] ?? 0);
+    return BigInt(delta) >= raw;
+  });
+}
+
+/**
+ * Resolves with the paying signature once a valid transfer referencing
+ * `exp.reference` lands; rejects with PaymentWatchError on timeout/cancel/mismatch.
+ * Anyone can reference the key (it's in the QR), so a transaction that doesn't pay is skipped:
+ * "mismatch" only comes at the deadline, when one arrived and no valid payment did.
+ */
+export async function watchPayment(exp: ExpectedPayment, opts: WatchOptions = {}): Promise<string> {
+  const { signal, timeoutMs = 10 * 60_000, intervalMs = 3_000 } = opts;
+  const reference = new PublicKey(exp.reference);
+  const deadline = Date.now() + timeoutMs;
+  const checked = new Set<string>();
+  let mismatch: string | undefined; // first non-paying tx, reported if nothing valid lands
+
+  while (Date.now() < deadline) {
+    if (signal?.aborted) throw new PaymentWatchError("cancelled", "Payment watch cancelled.");
+
+    try {
+      const sigs = await withFailover(
+        (c) => c.getSignaturesForAddress(reference, { limit: 100 } as any, "confirmed" as any),
+        "getSignaturesForAddress(reference)"
+      );
+      // oldest first: the first valid payment wins
+      for (const info of [...sigs].reverse()) {
+        if (info.err || checked.has(info.signature)) continue;
+        checked.add(info.signature);
+        const tx = await withFailover(
+          (c) => c.getTransaction(info.signature, { maxSupportedTransactionVersion: 0, commitment: "confirmed" } as any),
+          "getTransaction(reference)"
+        );
+        if (!tx) {
+          checked.delete(info.signature); // not served yet at this commitment; retry next tick
+          continue;
+        }
+        if (paysEnough(tx, exp)) return info.signature;
+        mismatch ??= info.signature;
+      }
+    } catch (e) {
+      console.warn("[PayWatch] poll failed:", e);
+    }
+
+    await sleep(intervalMs, signal);
+  }
+
+  if (signal?.aborted) throw new PaymentWatchError("cancelled", "Payment watch cancelled.");
+  if (mismatch) {
+    throw new PaymentWatchError("mismatch", "A payment was found but the amount or recipient didn't match.", mismatch);
+  }
+  throw new PaymentWatchError("timeout", "No payment detected yet.");
+}
@@ -0,0 +1,284 @@
+// src/components/rpc.ts
+// One RPC endpoint manager for the whole app (tips, Discover, Jupiter).
+// - Pool per cluster from CONFIG (VITE_RPC_*), with the same filter rules everywhere
+// - Per-endpoint health score, latency EWMA and cooldowns
+// - Error classification: rate limit / 401 (Helius allowlist hint) / CORS / network / server / fatal
+// - withFailover() picks the healthiest endpoint and rotates on retryable errors
+// - onRpcChange() tells long-lived users (websocket subscriptions) when the preferred endpoint moves
+
+import { Connection } from "@solana/web3.js";
+import { CONFIG } from "./config";
+import type { Cluster } from "./config";
+import { showToast } from "./toast";
+
+export type RpcErrorKind =
+  | "rate_limit"
+  | "unauthorized"
+  | "cors"
+  | "network"
+  | "timeout"
+  | "server"
+  | "fatal";
+
+type Endpoint = {
+  url: string;
+  score: number; // 0..100, recovers over time
+  latencyMs: number; // EWMA of successful calls (0 = unknown)
+  cooldownUntil: number;
+  fails: number; // consecutive failures
+  successes: number;
+  lastFailAt: number;
+  lastError?: RpcErrorKind;
+};
+
+const MAX_SCORE = 100;
+const RECOVERY_MS_PER_POINT = 10_000;
+
+// Penalty + cooldown per error kind (cooldown grows with consecutive failures)
+const PENALTY: Record<Exclude<RpcErrorKind, "fatal">, { score: number; cooldown: (fails: number) => number }> = {
+  rate_limit: { score: 30, cooldown: (f) => Math.min(60_000, 15_000 * f) },
+  unauthorized: { score: 60, cooldown: () => 5 * 60_000 }, // allowlist won't fix itself
+  cors: { score: 60, cooldown: () => 5 * 60_000 },
+  network: { score: 20, cooldown: (f) => Math.min(30_000, 3_000 * f) },
+  timeout: { score: 20, cooldown: (f) => Math.min(30_000, 3_000 * f) },
+  server: { score: 15, cooldown: (f) => Math.min(30_000, 5_000 * f) },
+};
+
+let cluster: Cluster = CONFIG.DEFAULT_CLUSTER;
+let pool: Endpoint[] = [];
+const conns = new Map<string, Connection>();
+let heliusHintShown = false;
+let preferred = ""; // last endpoint announced to onRpcChange listeners
+const listeners = new Set<(url: string, cluster: Cluster) => void>();
+
+// -------------------- helpers --------------------
+const now = () => Date.now();
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Never usable from a browser for Solana JSON-RPC
+function isBlocked(u: string) {
+  const l = u.toLowerCase();
+  return (
+    l.includes("rpc.ankr.com/multichain") || // not a Solana JSON-RPC
+    l.includes("solana.drpc.org") // rejects the custom header web3.js sends (CORS)
+  );
+}
+
+// Works, but often without CORS headers → start lower so healthier endpoints go first
+function isCorsSuspect(u: string) {
+  return u.toLowerCase().includes("publicnode.com");
+}
+
+function safeDefaults(which: Cluster) {
+  return which === "devnet"
+    ? ["https://api.devnet.solana.com", "https://rpc.publicnode.com/solana-devnet"]
+    : ["https://api.mainnet-beta.solana.com", "https://rpc.publicnode.com/solana"];
+}
+
+function effectiveScore(ep: Endpoint) {
+  const recovered = ep.lastFailAt ? (now() - ep.lastFailAt) / RECOVERY_MS_PER_POINT : 0;
+  return Math.min(MAX_SCORE, ep.score + recovered);
+}
+
+function rank(a: Endpoint, b: Endpoint) {
+  const ds = effectiveScore(b) - effectiveScore(a);
+  if (Math.abs(ds) > 1) return ds;
+  // unknown latency sorts after measured endpoints of equal health
+  return (a.latencyMs || Number.MAX_SAFE_INTEGER) - (b.latencyMs || Number.MAX_SAFE_INTEGER);
+}
+
+function findEp(url: string) {
+  return pool.find((p) => p.url === url);
+}
+
+function announce() {
+  const url = bestEndpoint();
+  if (url === preferred) return;
+  preferred = url;
+  for (const fn of listeners) {
+    try {
+      fn(url, cluster);
+    } catch (e) {
+      console.warn("[RPC] listener failed:", e);
+    }
+  }
+}
+
+// -------------------- pool --------------------
+export function initRpc(which: Cluster = CONFIG.DEFAULT_CLUSTER) {
+  cluster = which;
+  const raw = which === "devnet" ? CONFIG.DEVNET_RPCS : CONFIG.MAINNET_RPCS;
+
+  let list = Array.from(new Set(raw.filter(Boolean)));
+  const before = list.length;
+  list = list.filter((u) => !isBlocked(u));
+  if (list.length !== before) {
+    console.warn(
+      "[RPC] Ignoring endpoints that can't serve Solana JSON-RPC from a browser (Ankr Multichain, dRPC). Supply native Solana RPC URLs instead."
+    );
+  }
+  if (!list.length) list = safeDefaults(which);
+
+  pool = list.map((url) => ({
+    url,
+    score: isCorsSuspect(url) ? 70 : MAX_SCORE,
+    latencyMs: 0,
+    cooldownUntil: 0,
+    fails: 0,
+    successes: 0,
+    lastFailAt: 0,
+  }));
+  announce();
+}
+
+function ensurePool() {
+  if (!pool.length) initRpc(cluster);
+}
+
+export function getRpcCluster(): Cluster {
+  return cluster;
+}
+
+/** Healthiest endpoint not cooling down (or the one that recovers first). */
+export function bestEndpoint(exclude: string[] = []): string {
+  ensurePool();
+  const t = now();
+  const candidates = pool.filter((p) => !exclude.includes(p.url));
+  const list = candidates.length ? candidates : pool;
+  const ready = list.filter((p) => p.cooldownUntil <= t).sort(rank);
+  if (ready.length) return ready[0].url;
+  return [...list].sort((a, b) => a.cooldownUntil - b.cooldownUntil)[0].url;
+}
+
+export function connectionFor(url: string): Connection {
+  let c = conns.get(url);
+  if (!c) {
+    c = new Connection(url, { commitment: "confirmed" });
+    conns.set(url, c);
+  }
+  return c;
+}
+
+export function getRpcConnection(): Connection {
+  return connectionFor(bestEndpoint());
+}
+
+// -------------------- health reporting --------------------
+export function classifyRpcError(e: any, url?: string): RpcErrorKind {
+  const m = String(e?.message || e || "").toLowerCase();
+  if (m.includes("429") || m.includes("too many requests") || m.includes("rate limit")) return "rate_limit";
+  if (m.includes("401") || m.includes("unauthorized")) return "unauthorized";
+  if (m.includes("403") || m.includes("forbidden") || m.includes("cors")) return "cors";
+  if (m.includes("timeout") || m.includes("timed out")) return "timeout";
+  if (/\b50[0234]\b/.test(m) || m.includes("bad gateway") || m.includes("service unavailable")) return "server";
+  if (m.includes("fetch") || m.includes("network")) {
+    // A browser CORS rejection surfaces as a bare "Failed to fetch"; if this endpoint
+    // has never answered us, that's far more likely than a flaky network.
+    const ep = url ? findEp(url) : undefined;
+    return ep && ep.successes === 0 ? "cors" : "network";
+  }
+  return "fatal";
+}
+
+export function reportSuccess(url: string, ms: number) {
+  const ep = findEp(url);
+  if (!ep) return;
+  ep.successes += 1;
+  ep.fails = 0;
+  ep.score = Math.min(MAX_SCORE, effectiveScore(ep) + 5);
+  ep.lastFailAt = 0;
+  ep.latencyMs = ep.latencyMs ? Math.round(ep.latencyMs * 0.7 + ms * 0.3) : Math.round(ms);
+}
+
+export function reportFailure(url: string, kind: RpcErrorKind) {
+  const ep = findEp(url);
+  if (!ep || kind === "fatal") return;
+  const p = PENALTY[kind];
+  ep.fails += 1;
+  ep.score = Math.max(0, effectiveScore(ep) - p.score);
+  ep.lastFailAt = now();
+  ep.cooldownUntil = now() + p.cooldown(ep.fails);
+  ep.lastError = kind;
+  announce();
+
+  if (kind === "unauthorized" && url.includes("helius-rpc.com") && !heliusHintShown) {
+    heliusHintShown = true;
+    console.warn("[RPC] Helius returned 401 — add this site's origin to the API key allowlist.");
+    showToast("Helius Unauthorized: add this site origin to the key's allowlist.", "error");
+  }
+}
+
+// -------------------- Backoff + failover --------------------
+export async function withFailover<T>(
+  work: (c: Connection) => Promise<T>,
+  label = "op",
+  retries = 2
+): Promise<T> {
+  ensurePool();
+  const tried: string[] = [];
+  let delay = 700;
+
+  for (let i = 0; i <= retries; i++) {
+    const url = bestEndpoint(tried);
+    const ep = findEp(url);
+
+    // Everything is cooling down → wait for the first one to come back (bounded)
+    const wait = ep ? ep.cooldownUntil - now() : 0;
+    if (wait > 0) await sleep(Math.min(wait, 15_000));
+
+    const started = now();
+    try {
+      const out = await work(connectionFor(url));
+      reportSuccess(url, now() - started);
+      return out;
+    } catch (e: any) {
+      const kind = classifyRpcError(e, url);
+      console.warn(`[RPC] ${label} failed on ${url} (${kind}, try ${i + 1}/${retries + 1})`, e);
+      if (kind === "fatal") throw e;
+      reportFailure(url, kind);
+      if (i === retries) throw e;
+
+      tried.push(url);
+      if (tried.length >= pool.length) tried.length = 0; // cycled through all; allow repeats
+      await sleep(delay + Math.floor(Math.random() * 300));
+      delay = Math.min(delay * 2, 6_000);
+    }
+  }
+  throw new Error("failover loop exhausted");
+}
+
+// -------------------- consumers --------------------
+/** Called when the preferred endpoint changes (rotation after failures, or a new pool). */
+export function onRpcChange(fn: (url: string, cluster: Cluster) => void) {
+  listeners.add(fn);
+  return () => listeners.delete(fn);
+}
+
+/** https → wss (same host/path/query, so API keys carry over); the current cluster's RPC_WS overrides. */
+export function wsEndpointFor(httpUrl: string): string {
+  if (CONFIG.RPC_WS[cluster]) return CONFIG.RPC_WS[cluster];
+  const u = new URL(httpUrl);
+  u.protocol = u.protocol === "http:" ? "ws:" : "wss:";
+  if (u.port === "8899") u.port = "8900"; // local test validator convention
+  return u.toString();
+}
+
+/** Endpoint for the Jupiter plugin: Helius if it hasn't been rejected, else the healthiest. */
+export function jupiterEndpoint(): string | undefined {
+  ensurePool();
+  const helius = pool.find(
+    (p) => p.url.includes("helius-rpc.com") && p.lastError !== "unauthorized" && p.lastError !== "cors"
+  );
+  return helius?.url || bestEndpoint();
+}
+
+/** Snapshot for debugging (window.__rpc in the dev server's console). */
+export function rpcStatus() {
+  return pool.map((p) => ({
+    url: p.url,
+    score: Math.round(effectiveScore(p)),
+    latencyMs: p.latencyMs,
+    coolingMs: Math.max(0, p.cooldownUntil - now()),
+    lastError: p.lastError,
+  }));
+}
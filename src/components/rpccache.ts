@@ -0,0 +1,217 @@
+// src/components/rpccache.ts
+// Caching layer in front of getTransaction / getSignaturesForAddress.
+// - In-flight dedupe: concurrent asks for the same signature/address share one RPC call
+// - Finalized transactions are immutable → persisted in IndexedDB keyed by signature
+// - Signature lists remember the newest finalized signature per address and only
+//   fetch what landed after it (`until`), merging with what we already have
+
+import { PublicKey, VersionedMessage } from "@solana/web3.js";
+import type { ConfirmedSignatureInfo, VersionedTransactionResponse } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { getRpcCluster, withFailover } from "./rpc";
+
+const DB_NAME = "stonky-rpc";
+const DB_VERSION = 1;
+const TX_STORE = "txs";
+const SIG_STORE = "sigs";
+
+const MAX_MEM_TXS = 500;
+const MAX_SIGS_PER_ADDRESS = 500;
+// Without a known status, a tx this old is past finalization (~13s) by a wide margin
+const FINALIZED_AGE_S = 60;
+
+type StoredTx = {
+  sig: string;
+  slot: number;
+  blockTime: number | null;
+  version: VersionedTransactionResponse["version"];
+  message: string; // base64 serialized message
+  signatures: string[];
+  meta: any; // loadedAddresses flattened to base58
+};
+
+type StoredSigs = {
+  key: string; // `${cluster}:${address}`
+  list: ConfirmedSignatureInfo[]; // newest first
+};
+
+const memTxs = new Map<string, VersionedTransactionResponse>();
+const memSigs = new Map<string, ConfirmedSignatureInfo[]>();
+const statusOf = new Map<string, ConfirmedSignatureInfo["confirmationStatus"]>();
+const inflight = new Map<string, Promise<any>>();
+
+// -------------------- IndexedDB (best-effort; private mode / old browsers → memory only) --------------------
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    try {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(TX_STORE)) db.createObjectStore(TX_STORE, { keyPath: "sig" });
+        if (!db.objectStoreNames.contains(SIG_STORE)) db.createObjectStore(SIG_STORE, { keyPath: "key" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.warn("[RPC cache] IndexedDB unavailable:", req.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn("[RPC cache] IndexedDB unavailable:", e);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+async function idbGet<T>(store: string, key: string): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve) => {
+    try {
+      const req = db.transaction(store, "readonly").objectStore(store).get(key);
+      req.onsuccess = () => resolve(req.result as T | undefined);
+      req.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+}
+
+async function idbPut(store: string, value: unknown): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    db.transaction(store, "readwrite").objectStore(store).put(value);
+  } catch (e) {
+    console.warn("[RPC cache] write failed:", e);
+  }
+}
+
+// -------------------- helpers --------------------
+function once<T>(key: string, work: () => Promise<T>): Promise<T> {
+  const hit = inflight.get(key);
+  if (hit) return hit;
+  const p = work().finally(() => inflight.delete(key));
+  inflight.set(key, p);
+  return p;
+}
+
+function remember(sig: string, tx: VersionedTransactionResponse) {
+  memTxs.set(sig, tx);
+  if (memTxs.size > MAX_MEM_TXS) memTxs.delete(memTxs.keys().next().value!);
+}
+
+function isFinalized(sig: string, tx: VersionedTransactionResponse): boolean {
+  const st = statusOf.get(sig);
+  if (st) return st === "finalized";
+  return !!tx.blockTime && Date.now() / 1000 - tx.blockTime > FINALIZED_AGE_S;
+}
+
+// Class instances (messages, PublicKeys) don't survive structured clone → store bytes + strings
+function toStored(sig: string, tx: VersionedTransactionResponse): StoredTx {
+  const la = tx.meta?.loadedAddresses;
+  return {
+    sig,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    version: tx.version,
+    message: Buffer.from(tx.transaction.message.serialize()).toString("base64"),
+    signatures: tx.transaction.signatures,
+    meta: tx.meta && {
+      ...tx.meta,
+      loadedAddresses: la && {
+        writable: la.writable.map((k) => k.toBase58()),
+        readonly: la.readonly.map((k) => k.toBase58()),
+      },
+    },
+  };
+}
+
+function fromStored(s: StoredTx): VersionedTransactionResponse {
+  const la = s.meta?.loadedAddresses;
+  return {
+    slot: s.slot,
+    blockTime: s.blockTime,
+    version: s.version,
+    transaction: {
+      message: VersionedMessage.deserialize(Buffer.from(s.message, "base64")),
+      signatures: s.signatures,
+    },
+    meta: s.meta && {
+      ...s.meta,
+      loadedAddresses: la && {
+        writable: la.writable.map((k: string) => new PublicKey(k)),
+        readonly: la.readonly.map((k: string) => new PublicKey(k)),
+      },
+    },
+  } as VersionedTransactionResponse;
+}
+
+// -------------------- transactions --------------------
+/** getTransaction with memory + IndexedDB cache (finalized only) and in-flight dedupe. */
+export function getTransactionCached(sig: string): Promise<VersionedTransactionResponse | null> {
+  const mem = memTxs.get(sig);
+  if (mem) return Promise.resolve(mem);
+
+  return once(`tx:${sig}`, async () => {
+    const stored = await idbGet<StoredTx>(TX_STORE, sig);
+    if (stored) {
+      try {
+        const tx = fromStored(stored);
+        remember(sig, tx);
+        return tx;
+      } catch (e) {
+        console.warn("[RPC cache] dropping unreadable entry", sig, e);
+      }
+    }
+
+    const tx = await withFailover(
+      (c) => c.getTransaction(sig, { maxSupportedTransactionVersion: 0, commitment: "confirmed" }),
+      "getTransaction"
+    );
+    if (!tx) return null; // not served yet; ask again next time
+
+    if (isFinalized(sig, tx)) {
+      remember(sig, tx);
+      void idbPut(TX_STORE, toStored(sig, tx));
+    }
+    return tx;
+  });
+}
+
+// -------------------- signatures --------------------
+/**
+ * getSignaturesForAddress, newest first, fetching only what landed after the newest
+ * finalized signature we already know for this address.
+ */
+export function getSignaturesCached(address: PublicKey, limit = 20): Promise<ConfirmedSignatureInfo[]> {
+  const key = `${getRpcCluster()}:${address.toBase58()}`;
+
+  return once(`sigs:${key}:${limit}`, async () => {
+    let known = memSigs.get(key);
+    if (!known) known = (await idbGet<StoredSigs>(SIG_STORE, key))?.list || [];
+
+    // unfinalized entries may still change status (or vanish on a fork) → refetch them
+    const cursor = known.find((s) => s.confirmationStatus === "finalized")?.signature;
+    const fresh = await withFailover(
+      (c) => c.getSignaturesForAddress(address, { limit, until: cursor }, "confirmed"),
+      "getSignaturesForAddress"
+    );
+
+    // A full page means there may be a gap between `fresh` and what we had → start over
+    const keep = fresh.length >= limit ? [] : known.filter((s) => s.confirmationStatus === "finalized");
+    const seen = new Set(fresh.map((s) => s.signature));
+    const list = [...fresh, ...keep.filter((s) => !seen.has(s.signature))]
+      .sort((a, b) => b.slot - a.slot)
+      .slice(0, MAX_SIGS_PER_ADDRESS);
+
+    for (const s of list) statusOf.set(s.signature, s.confirmationStatus);
+    memSigs.set(key, list);
+    void idbPut(SIG_STORE, { key, list } satisfies StoredSigs);
+    return list.slice(0, limit);
+  });
+}
@@ -0,0 +1,184 @@
+// src/components/sns.ts
+// On-chain SNS (.sol) resolution — no third-party HTTP API, so it works on IPFS gateways.
+// - Forward: domain → name account (sha256("SPL Name Service" + name) PDA under the .sol TLD) → owner
+// - Tokenized domains: the name account is owned by the tokenizer's nft_record PDA, so the owner is
+//   whoever holds the domain NFT (the one token of its mint)
+// - Reverse: name account → reverse-lookup record → "alice"
+// - Favorite ("primary") domain: favourite_domain PDA of the wallet → name account → reverse
+// Reads go through the shared RPC pool (withFailover) and land in a small TTL cache.
+// Account parsers are pure functions over raw account data.
+
+import { PublicKey } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { getRpcCluster, withFailover } from "./rpc";
+
+export const NAME_PROGRAM_ID = new PublicKey("namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX");
+export const SOL_TLD_AUTHORITY = new PublicKey("58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx");
+export const REVERSE_LOOKUP_CLASS = new PublicKey("33m47vH6Eav6jr5Ry86XjhRft2jRBLDnDgPSHoquXi2Z");
+export const NAME_OFFERS_ID = new PublicKey("85iDfUvr3HJyLM2zcq5BXSiDvUWfw6cSE1FfNBo8Ap29");
+export const NAME_TOKENIZER_ID = new PublicKey("nftD3vbNkNqfj2Sd3HZwbpw4BxxKWr4AjGb9X38JeZk");
+
+const HASH_PREFIX = "SPL Name Service";
+const HEADER_LEN = 96; // parentName(32) + owner(32) + class(32)
+
+const HIT_TTL_MS = 10 * 60_000;
+const MISS_TTL_MS = 60_000;
+const MAX_ENTRIES = 200;
+
+export type NameRegistry = {
+  parentName: PublicKey;
+  owner: PublicKey;
+  nameClass: PublicKey;
+  data: Buffer;
+};
+
+export type TokenAccount = { mint: PublicKey; owner: PublicKey; amount: bigint };
+
+// -------------------- derivation --------------------
+export async function hashName(name: string): Promise<Buffer> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(HASH_PREFIX + name));
+  return Buffer.from(digest);
+}
+
+export function nameAccountKey(hashed: Buffer, nameClass?: PublicKey, parent?: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [hashed, (nameClass ?? PublicKey.default).toBuffer(), (parent ?? PublicKey.default).toBuffer()],
+    NAME_PROGRAM_ID
+  )[0];
+}
+
+/** "alice.sol" / "alice" / "sub.alice.sol" → name account. */
+export async function domainKey(domain: string): Promise<PublicKey> {
+  const bare = domain.trim().toLowerCase().replace(/\.sol$/, "");
+  const parts = bare.split(".");
+  if (!bare || parts.length > 2 || parts.some((p) => !p)) throw new Error(`Invalid .sol domain: ${domain}`);
+
+  const parentKey = nameAccountKey(await hashName(parts[parts.length - 1]), undefined, SOL_TLD_AUTHORITY);
+  if (parts.length === 1) return parentKey;
+  // subdomains are hashed with a leading \0 under their parent
+  return nameAccountKey(await hashName("\0" + parts[0]), undefined, parentKey);
+}
+
+/** Reverse record of a name account: keyed by the hash of its base58 string. */
+export async function reverseKey(nameAccount: PublicKey, parent?: PublicKey): Promise<PublicKey> {
+  return nameAccountKey(await hashName(nameAccount.toBase58()), REVERSE_LOOKUP_CLASS, parent);
+}
+
+export function favoriteDomainKey(owner: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from("favourite_domain"), owner.toBuffer()], NAME_OFFERS_ID)[0];
+}
+
+/** Tokenizer record of a name account; it owns the name account while the domain is an NFT. */
+export function nftRecordKey(nameAccount: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from("nft_record"), nameAccount.toBuffer()], NAME_TOKENIZER_ID)[0];
+}
+
+/** Mint of a tokenized domain's NFT. */
+export function domainMintKey(nameAccount: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from("tokenized_name"), nameAccount.toBuffer()], NAME_TOKENIZER_ID)[0];
+}
+
+// -------------------- parsers (raw account data) --------------------
+export function parseNameRegistry(data: Uint8Array): NameRegistry {
+  const buf = Buffer.from(data);
+  if (buf.length < HEADER_LEN) throw new Error("Name registry too short");
+  return {
+    parentName: new PublicKey(buf.subarray(0, 32)),
+    owner: new PublicKey(buf.subarray(32, 64)),
+    nameClass: new PublicKey(buf.subarray(64, 96)),
+    data: buf.subarray(HEADER_LEN),
+  };
+}
+
+/** Reverse record payload: borsh string (u32 LE length + utf8). */
+export function parseReverseName(registryData: Uint8Array): string {
+  const buf = Buffer.from(registryData);
+  if (buf.length < 4) throw new Error("Reverse record too short");
+  const len = buf.readUInt32LE(0);
+  if (len > buf.length - 4) throw new Error("Reverse record truncated");
+  return buf.subarray(4, 4 + len).toString("utf8");
+}
+
+/** favourite_domain account: tag u8 + name account (32). */
+export function parseFavoriteDomain(data: Uint8Array): PublicKey {
+  const buf = Buffer.from(data);
+  if (buf.length < 33) throw new Error("Favorite domain record too short");
+  return new PublicKey(buf.subarray(1, 33));
+}
+
+/** SPL token account: mint (32) + owner (32) + amount (u64 LE), the rest ignored. */
+export function parseTokenAccount(data: Uint8Array): TokenAccount {
+  const buf = Buffer.from(data);
+  if (buf.length < 72) throw new Error("Token account too short");
+  return {
+    mint: new PublicKey(buf.subarray(0, 32)),
+    owner: new PublicKey(buf.subarray(32, 64)),
+    amount: buf.readBigUInt64LE(64),
+  };
+}
+
+// -------------------- cache --------------------
+const cache = new Map<string, { at: number; ttl: number; value: string | null }>();
+
+async function cached(key: string, work: () => Promise<string | null>): Promise<string | null> {
+  const k = `${getRpcCluster()}:${key}`;
+  const hit = cache.get(k);
+  if (hit && Date.now() - hit.at < hit.ttl) return hit.value;
+  const value = await work();
+  cache.set(k, { at: Date.now(), ttl: value ? HIT_TTL_MS : MISS_TTL_MS, value });
+  if (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  return value;
+}
+
+async function accountData(key: PublicKey): Promise<Buffer | null> {
+  const info = await withFailover((c) => c.getAccountInfo(key), "getAccountInfo(sns)");
+  return info ? Buffer.from(info.data) : null;
+}
+
+// -------------------- resolution --------------------
+/** Owner of a .sol domain (base58), or null if unregistered. Tokenized domains resolve to the NFT holder. */
+export function resolveDomain(domain: string): Promise<string | null> {
+  const name = domain.trim().toLowerCase();
+  return cached(`fwd:${name}`, async () => {
+    const key = await domainKey(name);
+    const data = await accountData(key);
+    if (!data) return null;
+    const owner = parseNameRegistry(data).owner;
+    return owner.equals(nftRecordKey(key)) ? nftHolder(key) : owner.toBase58();
+  });
+}
+
+/** Wallet holding a tokenized domain's NFT (its mint's largest token account), or null if nobody does. */
+async function nftHolder(nameAccount: PublicKey): Promise<string | null> {
+  const mint = domainMintKey(nameAccount);
+  const largest = await withFailover((c) => c.getTokenLargestAccounts(mint), "getTokenLargestAccounts(sns)");
+  const top = largest.value[0];
+  if (!top || top.amount !== "1") return null; // burned, or the domain was withdrawn from the NFT
+  const data = await accountData(top.address);
+  if (!data) return null;
+  const account = parseTokenAccount(data);
+  return account.mint.equals(mint) && account.amount === 1n ? account.owner.toBase58() : null;
+}
+
+/** Name stored in the reverse record of a name account ("alice"), without ".sol". */
+export async function reverseLookup(nameAccount: PublicKey): Promise<string | null> {
+  const data = await accountData(await reverseKey(nameAccount));
+  return data ? parseReverseName(parseNameRegistry(data).data) : null;
+}
+
+/** Wallet's favorite (primary) domain as "alice.sol" — only if the wallet still owns it. */
+export function favoriteDomain(owner: string): Promise<string | null> {
+  return cached(`fav:${owner}`, async () => {
+    const ownerKey = new PublicKey(owner);
+    const fav = await accountData(favoriteDomainKey(ownerKey));
+    if (!fav) return null;
+    const nameAccount = parseFavoriteDomain(fav);
+
+    const [registry, name] = await Promise.all([accountData(nameAccount), reverseLookup(nameAccount)]);
+    if (!registry || !name) return null;
+    const reg = parseNameRegistry(registry);
+    if (!reg.owner.equals(ownerKey)) return null; // stale favorite (domain was transferred)
+    if (!reg.parentName.equals(SOL_TLD_AUTHORITY)) return null; // subdomain favorites not supported
+    return `${name}.sol`;
+  });
+}
@@ -1,166 +1,90 @@
 // src/components/solana.ts
-// Free-RPC pool with rotation + backoff, SNS resolve, sendTip, recent feed,
-// and Solana Pay deep links. Uses public Solana RPCs (no Ankr Multichain).
+// SNS resolve, sendTip (SOL + SPL), recent feed and Solana Pay deep links.
+// RPC selection/failover lives in rpc.ts; the helpers below keep their old names.
 
-import {
-  Connection,
-  LAMPORTS_PER_SOL,
-  PublicKey,
-  SystemProgram,
-  TransactionMessage,
-  VersionedTransaction,
-} from "@solana/web3.js";
+import { LAMPORTS_PER_SOL, PublicKey, TransactionMessage } from "@solana/web3.js";
+import type { VersionedTransaction } from "@solana/web3.js";
 import { CONFIG } from "./config";
 import type { Cluster } from "./config";
-
-let connection: Connection;
-let rpcPool: string[] = [];
-let rpcIndex = 0;
-let cluster: Cluster = CONFIG.DEFAULT_CLUSTER;
-let pauseUntil = 0; // cooldown after burst errors
+import { getWallet } from "./wallet";
+import { findAta, formatUnits, tipTokens, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "./tokens";
+import type { TipToken } from "./tokens";
+import { getFeeLevel, prioritize } from "./fees";
+import { resolveDomain } from "./sns";
+import { reviewTransaction } from "./txpreview";
+import type { WatchedAccount } from "./txpreview";
+import type { FeeEstimate, FeeLevel } from "./fees";
+import { parseTipMemo } from "./memoproto";
+import { MEMO_PROGRAM_ID, buildTipTransaction, tipShares } from "./tiptx";
+import type { TipShare, TipSplit } from "./tiptx";
+import bs58 from "bs58";
+import { Buffer } from "buffer";
+import {
+  bestEndpoint,
+  getRpcCluster,
+  getRpcConnection,
+  initRpc,
+  withFailover,
+} from "./rpc";
+import { getSignaturesCached, getTransactionCached } from "./rpccache";
 
 // -------------------- helpers --------------------
-const now = () => Date.now();
-const uniq = <T,>(arr: T[]) => Array.from(new Set(arr));
-
-function isRetryable(e: any) {
-  const s = String(e?.message || e || "");
-  const m = s.toLowerCase();
-  return (
-    m.includes("429") || // rate limit
-    m.includes("rate") ||
-    m.includes("fetch") ||
-    m.includes("network") ||
-    m.includes("timeout") ||
-    m.includes("forbidden") || // 403
-    m.includes("403")
-  );
-}
-
-function looksLikeMultichain(u: string) {
-  return /rpc\.ankr\.com\/multichain/i.test(u);
-}
+const uniqBy = <T,>(arr: T[], key: (x: T) => string) => {
+  const seen = new Set<string>();
+  return arr.filter((x) => (seen.has(key(x)) ? false : (seen.add(key(x)), true)));
+};
 
-function ensurePoolHasSafeDefaults(list: string[], which: Cluster) {
-  if (list.length > 0) return list;
-  // Fallback to known public RPCs if everything got filtered out
-  if (which === "devnet") {
-    return [
-      "https://rpc.publicnode.com/solana-devnet",
-      "https://api.devnet.solana.com",
-    ];
-  }
-  return [
-    "https://rpc.publicnode.com/solana",
-    "https://solana.drpc.org",
-    "https://api.mainnet-beta.solana.com",
-  ];
-}
-
-// -------------------- RPC pool --------------------
-function setPool(which: Cluster) {
-  cluster = which;
-  const raw = which === "devnet" ? CONFIG.DEVNET_RPCS : CONFIG.MAINNET_RPCS;
-
-  // 1) de-dup
-  let list = uniq(raw).filter(Boolean);
-
-  // 2) drop any Ankr Multichain endpoints proactively
-  const before = list.length;
-  list = list.filter((u) => !looksLikeMultichain(u));
-  if (list.length !== before) {
-    console.warn(
-      "[RPC] Ignoring Ankr Multichain endpoints for Solana JSON-RPC. Supply native Solana RPC URLs instead."
-    );
-  }
-
-  // 3) ensure we have something usable
-  list = ensurePoolHasSafeDefaults(list, which);
-
-  rpcPool = list;
-  rpcIndex = 0;
-  connection = new Connection(currentRpc(), { commitment: "confirmed" });
-}
-
-function rotateRpc(label?: string) {
-  rpcIndex = (rpcIndex + 1) % (rpcPool.length || 1);
-  connection = new Connection(currentRpc(), { commitment: "confirmed" });
-  console.warn("[RPC] rotated →", currentRpc(), label ? `(${label})` : "");
-}
+// -------------------- RPC (delegates to the endpoint manager in rpc.ts) --------------------
+export { withFailover };
 
 export function currentRpc() {
-  if (!rpcPool.length) setPool(CONFIG.DEFAULT_CLUSTER);
-  return rpcPool[rpcIndex % rpcPool.length];
+  return bestEndpoint();
 }
 
-export function initConnection(which: Cluster = CONFIG.DEFAULT_CLUSTER) {
-  setPool(which);
-  return connection;
+export function initConnection(which: Cluster = initialCluster()) {
+  initRpc(which);
+  return getRpcConnection();
 }
 
 export function getConnection() {
-  if (!connection) initConnection(CONFIG.DEFAULT_CLUSTER);
-  return connection;
+  return getRpcConnection();
 }
 
 export function getCluster(): Cluster {
-  return cluster;
+  return getRpcCluster();
 }
 
-// -------------------- Backoff + failover --------------------
-export async function withFailover<T>(
-  work: (c: Connection) => Promise<T>,
-  label = "op",
-  retries = 2
-): Promise<T> {
-  if (!connection) initConnection(CONFIG.DEFAULT_CLUSTER);
-
-  // Honor cooldown if we recently got rate-limited
-  if (now() < pauseUntil) {
-    await new Promise((r) => setTimeout(r, Math.max(0, pauseUntil - now())));
-  }
-
-  let delay = 700;
-  for (let i = 0; i <= retries; i++) {
-    try {
-      return await work(connection);
-    } catch (e: any) {
-      const retryable = isRetryable(e);
-      console.warn(
-        `[RPC] ${label} failed on ${currentRpc()} (try ${i + 1}/${retries + 1})`,
-        e
-      );
-
-      if (!retryable || i === retries) throw e;
-
-      // After 429, chill a bit globally
-      if (String(e?.message || "").includes("429")) {
-        pauseUntil = now() + 15_000;
-      }
+// -------------------- Cluster (runtime switch) --------------------
+// ?cluster=devnet|mainnet wins over VITE_DEFAULT_CLUSTER; no param → the build default.
+export function initialCluster(): Cluster {
+  const q = new URLSearchParams(window.location.search).get("cluster");
+  return q === "devnet" || q === "mainnet" ? q : CONFIG.DEFAULT_CLUSTER;
+}
 
-      rotateRpc(label);
-      await new Promise((r) =>
-        setTimeout(r, delay + Math.floor(Math.random() * 300))
-      );
-      delay = Math.min(delay * 2, 6_000);
-    }
-  }
-  throw new Error("failover loop exhausted");
+/**
+ * Re-initializes the RPC pool for `which`, forgets the resolved recipient, records the
+ * choice in the URL and broadcasts `stonky:clusterChanged` so widgets can re-mount.
+ */
+export function switchCluster(which: Cluster) {
+  if (which === getCluster()) return;
+  initRpc(which);
+  cachedRecipient = null;
+
+  const url = new URL(window.location.href);
+  if (which === CONFIG.DEFAULT_CLUSTER) url.searchParams.delete("cluster");
+  else url.searchParams.set("cluster", which);
+  window.history.replaceState(window.history.state, "", url);
+
+  window.dispatchEvent(new CustomEvent("stonky:clusterChanged", { detail: { cluster: which } }));
 }
 
-// -------------------- SNS (.sol) resolve (best-effort) --------------------
+// -------------------- SNS (.sol) resolve (best-effort, on-chain via sns.ts) --------------------
 export async function tryResolveSol(name: string): Promise<string | null> {
   if (!name) return null;
   try {
-    const bare = name.endsWith(".sol") ? name.slice(0, -4) : name;
-    const res = await fetch(
-      `https://sns-api.bonfida.com/resolve/${encodeURIComponent(bare)}`
-    );
-    if (!res.ok) return null;
-    const data = await res.json();
-    const addr = data?.address;
-    return addr && isValidPubkey(addr) ? addr : null;
-  } catch {
+    return await resolveDomain(name);
+  } catch (e) {
+    console.warn("[SNS] resolve failed:", name, e);
     return null;
   }
 }
@@ -174,148 +98,360 @@ export function isValidPubkey(s: string) {
   }
 }
 
+// -------------------- Tip memos --------------------
+/** Every Memo-program instruction of a fetched tx (legacy or v0), decoded as UTF-8, in order. */
+export function memosOf(tx: any, keys: string[] = accountKeysOf(tx)): string[] {
+  const msg = tx.transaction.message;
+  const ixs: any[] = msg.compiledInstructions ?? msg.instructions ?? [];
+  const memoId = MEMO_PROGRAM_ID.toBase58();
+  const out: string[] = [];
+  for (const ix of ixs) {
+    if (keys[ix.programIdIndex] !== memoId) continue;
+    try {
+      const bytes = typeof ix.data === "string" ? bs58.decode(ix.data) : ix.data;
+      out.push(Buffer.from(bytes).toString("utf8"));
+    } catch {
+      /* undecodable */
+    }
+  }
+  return out;
+}
+
 // -------------------- Tip send (wallet signs) --------------------
+export type TipOptions = {
+  token?: TipToken; // defaults to SOL
+  memo?: string | null; // see formatTipMemo() in memoproto.ts
+  feeLevel?: FeeLevel; // defaults to the saved preset (fees.ts)
+  onEstimate?: (e: FeeEstimate) => void; // called before the wallet prompt
+  preview?: boolean; // simulate + review modal before signing (default true)
+  splits?: TipSplit[]; // split mode (CONFIG.TIP_SPLITS): collaborators' shares in the same tx
+  recipient?: string; // base58 override of the page recipient (subscriptions)
+};
+
+// Accounts whose balance the review modal shows: payer + every share's recipient, or their
+// token accounts (transfers follow the share order, so the modal doubles as the split breakdown)
+function tipWatch(tx: VersionedTransaction, payer: PublicKey, shares: TipShare[], token?: TipToken): WatchedAccount[] {
+  const watch: WatchedAccount[] = [
+    { label: "You", address: payer },
+    ...shares.map((s) => ({ label: s.label, address: s.recipient })),
+  ];
+  if (!token?.mint) return watch;
+  const { instructions } = TransactionMessage.decompile(tx.message);
+  const transfers = instructions.filter(
+    (ix) =>
+      (ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID)) && ix.data[0] === 12
+  );
+  if (!transfers.length) return watch;
+  const t = { symbol: token.symbol, decimals: token.decimals };
+  return [
+    { label: `You (${token.symbol})`, address: transfers[0].keys[0].pubkey, token: t },
+    ...transfers.map((ix, i) => ({
+      label: `${shares[i]?.label ?? "Recipient"} (${token.symbol})`,
+      address: ix.keys[2].pubkey,
+      token: t,
+    })),
+    { label: "You", address: payer }, // SOL: network fee + ATA rent if a recipient had none
+  ];
+}
+
+// What the confirmation tracker (txconfirm.ts) needs after the wallet sends
+export type SentTip = {
+  sig: string;
+  blockhash: string;
+  lastValidBlockHeight: number;
+};
+
 export async function sendTip(
   fromPubkey: PublicKey,
-  amountSol: number
-): Promise<string> {
-  const to = await ensureRecipient();
+  amount: number,
+  opts: TipOptions = {}
+): Promise<SentTip> {
+  const to = opts.recipient ?? (await ensureRecipient());
   const toKey = new PublicKey(to);
 
-  const { blockhash } = await withFailover(
-    (c) => c.getLatestBlockhash({ commitment: "finalized" } as any),
-    "getLatestBlockhash"
+  const { tx: vtx, blockhash, lastValidBlockHeight, estimate } = await withFailover(
+    async (c) => {
+      const built = await buildTipTransaction(c, {
+        payer: fromPubkey,
+        recipient: toKey,
+        amount,
+        token: opts.token,
+        memo: opts.memo,
+        splits: opts.splits,
+      });
+      const { tx, estimate } = await prioritize(c, built.tx, opts.feeLevel ?? getFeeLevel());
+      return { ...built, tx, estimate };
+    },
+    "buildTipTransaction"
   );
+  opts.onEstimate?.(estimate);
+
+  if (opts.preview !== false) {
+    const shares = tipShares({ recipient: toKey, amount, token: opts.token, splits: opts.splits });
+    const split = shares.length > 1 ? ` (split ${shares.length} ways)` : "";
+    await reviewTransaction(getConnection(), vtx, {
+      title: `Tip ${amount} ${opts.token?.symbol || "SOL"}${split}`,
+      watch: tipWatch(vtx, fromPubkey, shares, opts.token),
+      estimate,
+    });
+  }
 
-  const ix = SystemProgram.transfer({
-    fromPubkey,
-    toPubkey: toKey,
-    lamports: Math.round(Number(amountSol) * LAMPORTS_PER_SOL),
-  });
+  const wallet = getWallet();
+  if (!wallet?.publicKey) {
+    throw new Error("No wallet connected. Connect a wallet first.");
+  }
 
-  const msg = new TransactionMessage({
-    payerKey: fromPubkey,
-    recentBlockhash: blockhash,
-    instructions: [ix],
-  }).compileToV0Message();
+  const sig = await wallet.signAndSendTransaction(vtx, getConnection());
+  return { sig, blockhash, lastValidBlockHeight };
+}
 
-  const vtx = new VersionedTransaction(msg);
+// -------------------- Recent tips (lean + robust) --------------------
+export type RecentTip = {
+  sol: string; // SOL received ("0" for token tips)
+  sig: string;
+  from: string;
+  when: number;
+  amount: string; // UI amount in `symbol` (display precision)
+  symbol: string;
+  raw: string; // exact amount in base units (lamports / token units)
+  decimals: number;
+  mint?: string; // set for SPL token tips
+  memo?: string; // full memo text, raw (escape before rendering)
+  handle?: string; // from the tip memo, raw (escape before rendering)
+  message?: string;
+  split?: Array<{ label: string; amount: string }>; // split tips: per-recipient shares (amount is the total)
+};
+
+// Works for legacy and v0 messages (v0 has no `accountKeys`)
+export function accountKeysOf(tx: any): string[] {
+  const msg = tx.transaction.message;
+  const mk = msg.getAccountKeys?.({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+  const list: any[] = mk ? mk.keySegments().flat() : msg.accountKeys;
+  return list.map((k: any) =>
+    typeof k === "string"
+      ? k
+      : k?.toBase58
+      ? k.toBase58()
+      : String(k?.pubkey ?? k)
+  );
+}
 
-  const provider = getProvider();
-  if (!provider?.signAndSendTransaction) {
-    throw new Error("No wallet found. Open Phantom and connect.");
+// Inbound SPL amounts keyed by mint, from pre/post token balances owned by `owner`
+export function tokenDeltas(tx: any, owner: string): Array<{ mint: string; raw: bigint; decimals: number }> {
+  const pre: any[] = tx.meta?.preTokenBalances || [];
+  const post: any[] = tx.meta?.postTokenBalances || [];
+  const out: Array<{ mint: string; raw: bigint; decimals: number }> = [];
+  for (const pb of post) {
+    if (pb?.owner !== owner) continue;
+    const before = pre.find((x) => x.accountIndex === pb.accountIndex);
+    const raw =
+      BigInt(pb.uiTokenAmount?.amount ?? "0") - BigInt(before?.uiTokenAmount?.amount ?? "0");
+    if (raw > 0n) out.push({ mint: pb.mint, raw, decimals: pb.uiTokenAmount?.decimals ?? 0 });
   }
+  return out;
+}
 
-  const result = await provider.signAndSendTransaction(vtx as any);
-  return String((result as any)?.signature ?? (result as unknown as string));
+/** Recipient wallet + its token accounts for every tip token (SPL transfers only touch the ATA). */
+export async function tipAddresses(): Promise<{ owner: PublicKey; atas: PublicKey[] }> {
+  const owner = new PublicKey(await ensureRecipient());
+  const atas = tipTokens(getCluster())
+    .filter((t) => t.mint)
+    .map((t) => findAta(owner, new PublicKey(t.mint!)));
+  return { owner, atas };
 }
 
-// -------------------- Recent tips (lean + robust) --------------------
-export async function loadRecentTips(): Promise<
-  Array<{ sol: string; sig: string; from: string; when: number }>
-> {
+/**
+ * Tips `recipient` received in one fetched transaction (one per SOL / token transfer).
+ * `splits`: collaborators whose shares in the same tx belong to the tip (split mode).
+ */
+export function tipsFromTx(tx: any, recipient: string, splits: TipSplit[] = []): RecentTip[] {
+  const out: RecentTip[] = [];
+  try {
+    const tokens = tipTokens(getCluster()).filter((t) => t.mint);
+    const keys = accountKeysOf(tx);
+    const memo = memosOf(tx, keys)[0];
+    const base = {
+      sig: tx.transaction.signatures[0],
+      from: keys[0],
+      when: tx.blockTime ?? 0,
+      ...(memo ? { memo, ...parseTipMemo(memo) } : {}),
+    };
+
+    const solIn = (who: string) => {
+      const i = keys.indexOf(who);
+      return i < 0 ? 0 : (tx.meta?.postBalances?.[i] ?? 0) - (tx.meta?.preBalances?.[i] ?? 0);
+    };
+    const delta = solIn(recipient);
+    if (delta > 0) {
+      const parts = splits.map((s) => ({ label: s.label, lamports: solIn(s.address) })).filter((p) => p.lamports > 0);
+      const fmt = (l: number) => (l / LAMPORTS_PER_SOL).toFixed(4);
+      const total = parts.reduce((sum, p) => sum + p.lamports, delta);
+      out.push({
+        ...base,
+        sol: fmt(total),
+        amount: fmt(total),
+        symbol: "SOL",
+        raw: String(total),
+        decimals: 9,
+        split: parts.length
+          ? [{ label: "Owner", amount: fmt(delta) }, ...parts.map((p) => ({ label: p.label, amount: fmt(p.lamports) }))]
+          : undefined,
+      });
+    }
+
+    for (const d of tokenDeltas(tx, recipient)) {
+      const known = tokens.find((t) => t.mint === d.mint);
+      const parts = splits
+        .map((s) => ({ label: s.label, raw: tokenDeltas(tx, s.address).find((x) => x.mint === d.mint)?.raw ?? 0n }))
+        .filter((p) => p.raw > 0n);
+      const total = parts.reduce((sum, p) => sum + p.raw, d.raw);
+      out.push({
+        ...base,
+        sol: "0",
+        amount: formatUnits(total, d.decimals),
+        symbol: known?.symbol ?? `${d.mint.slice(0, 4)}…`,
+        mint: d.mint,
+        raw: total.toString(),
+        decimals: d.decimals,
+        split: parts.length
+          ? [
+              { label: "Owner", amount: formatUnits(d.raw, d.decimals) },
+              ...parts.map((p) => ({ label: p.label, amount: formatUnits(p.raw, d.decimals) })),
+            ]
+          : undefined,
+      });
+    }
+  } catch {
+    /* ignore malformed */
+  }
+  return out;
+}
+
+export async function loadRecentTips(): Promise<RecentTip[]> {
   const recipient = await ensureRecipient();
-  const addr = new PublicKey(recipient);
-
-  // 1) get recent signatures (explicit commitment to satisfy web3.js)
-  const sigInfos = await withFailover(
-    (c) =>
-      c.getSignaturesForAddress(
-        addr,
-        { limit: 15 } as any,
-        "confirmed" as any
-      ),
-    "getSignaturesForAddress"
+  // split tips to the owner also paid the collaborators: count those shares in the same tx
+  const splits = isCustomRecipient() ? [] : CONFIG.TIP_SPLITS;
+
+  // 1) get recent signatures for the wallet + its token accounts
+  const { owner, atas } = await tipAddresses();
+  const watched = [owner, ...atas];
+  const sigLists = await Promise.all(watched.map((a) => getSignaturesCached(a, 15)));
+  const sigInfos = uniqBy(sigLists.flat(), (s) => s.signature).sort(
+    (a, b) => (b.slot || 0) - (a.slot || 0)
   );
-  if (!sigInfos?.length) return [];
+  if (!sigInfos.length) return [];
 
   const sigs = sigInfos.map((s) => s.signature).slice(0, 12);
 
-  // 2) fetch transactions individually; cheaper + compatible with public endpoints
-  const txs = await withFailover(
-    async (c) => {
-      const list = await Promise.all(
-        sigs.map((sig) =>
-          c.getTransaction(sig, {
-            maxSupportedTransactionVersion: 0,
-          } as any)
-        )
-      );
-      return list.filter(Boolean) as any[];
-    },
-    "getTransaction(batch)"
-  );
+  // 2) fetch transactions individually (cached + deduped; finalized ones never refetch)
+  const txs = (await Promise.all(sigs.map((sig) => getTransactionCached(sig)))).filter(Boolean) as any[];
 
-  const out: Array<{ sol: string; sig: string; from: string; when: number }> =
-    [];
-  for (const tx of txs) {
-    try {
-      const keys = tx.transaction.message.accountKeys.map((k: any) =>
-        typeof k === "string"
-          ? k
-          : k?.toBase58
-          ? k.toBase58()
-          : String(k?.pubkey ?? k)
-      );
+  return txs.flatMap((tx) => tipsFromTx(tx, recipient, splits)).slice(0, 10);
+}
 
-      const i = keys.indexOf(recipient);
-      if (i < 0) continue;
-
-      const pre = tx.meta?.preBalances?.[i] ?? 0;
-      const post = tx.meta?.postBalances?.[i] ?? 0;
-      const delta = post - pre;
-
-      if (delta > 0) {
-        out.push({
-          sol: (delta / LAMPORTS_PER_SOL).toFixed(4),
-          sig: tx.transaction.signatures[0],
-          from: keys[0],
-          when: tx.blockTime ?? 0,
-        });
-      }
-    } catch {
-      /* ignore malformed */
-    }
-  }
 
-  return out.slice(0, 10);
+// -------------------- Recipient --------------------
+// Default: VITE_OWNER_WALLET (or VITE_OWNER_SOL_DOMAIN). A route turns the page into a tip jar
+// for anyone: ?to=alice.sol | ?to=<base58> | /#/alice.sol (plain #anchors are left alone).
+let cachedRecipient: string | null = null;
+let cachedFor: string | null = null; // route the cache belongs to ("" = default owner)
+
+export function recipientRoute(): string | null {
+  const q = new URLSearchParams(window.location.search).get("to");
+  if (q?.trim()) return q.trim();
+  const h = window.location.hash;
+  if (h.startsWith("#/")) {
+    const v = decodeURIComponent(h.slice(2)).trim();
+    if (v) return v;
+  }
+  return null;
 }
 
-// -------------------- Provider + recipient --------------------
-export function getProvider(): any {
-  const p = (window as any).solana;
-  return p?.isPhantom ? p : null;
+/** Name to show for the current recipient: the routed .sol name, else a short key. */
+export function recipientLabel(to: string): string {
+  const route = recipientRoute();
+  if (route && !isValidPubkey(route)) return route.toLowerCase().endsWith(".sol") ? route : `${route}.sol`;
+  return `${to.slice(0, 4)}…${to.slice(-4)}`;
 }
 
-let cachedRecipient: string | null = null;
+/** The route as errors quote it: at most 32 characters, since it comes straight from the URL. */
+function shortRoute(route: string): string {
+  return route.length > 32 ? `${route.slice(0, 31)}…` : route;
+}
 
 export async function ensureRecipient(): Promise<string> {
-  if (cachedRecipient && isValidPubkey(cachedRecipient)) return cachedRecipient;
-
-  let dest = CONFIG.TIP_DEST_SOL;
-  if (!isValidPubkey(dest) && CONFIG.OWNER_SOL_DOMAIN) {
-    const resolved = await tryResolveSol(CONFIG.OWNER_SOL_DOMAIN);
-    if (resolved) dest = resolved;
-  }
-  if (!isValidPubkey(dest)) {
-    throw new Error(
-      "Invalid recipient. Set VITE_OWNER_WALLET to a base58 address."
-    );
+  const route = recipientRoute();
+  if (cachedRecipient && cachedFor === (route ?? "")) return cachedRecipient;
+
+  let dest: string;
+  if (route) {
+    dest = isValidPubkey(route) ? route : (await tryResolveSol(route)) || "";
+    if (!dest) throw new Error(`Couldn't resolve ${shortRoute(route)} — check the .sol name or address.`);
+  } else {
+    dest = CONFIG.TIP_DEST_SOL;
+    if (!isValidPubkey(dest) && CONFIG.OWNER_SOL_DOMAIN) {
+      const resolved = await tryResolveSol(CONFIG.OWNER_SOL_DOMAIN);
+      if (resolved) dest = resolved;
+    }
+    if (!isValidPubkey(dest)) {
+      throw new Error(
+        "Invalid recipient. Set VITE_OWNER_WALLET to a base58 address."
+      );
+    }
   }
   cachedRecipient = dest;
+  cachedFor = route ?? "";
   return dest;
 }
 
+/** Whether tips currently go somewhere other than the configured owner. */
+export function isCustomRecipient(): boolean {
+  return recipientRoute() !== null;
+}
+
+// Route changes (#/bob.sol → #/carol.sol) re-point the whole tip jar
+if (typeof window !== "undefined") {
+  window.addEventListener("hashchange", () => {
+    if (cachedFor === (recipientRoute() ?? "")) return;
+    cachedRecipient = null;
+    window.dispatchEvent(new CustomEvent("stonky:recipientChanged", { detail: { route: recipientRoute() } }));
+  });
+}
+
+// -------------------- Explorer links --------------------
+export function explorerTxUrl(sig: string) {
+  const cluster = getCluster();
+  const suffix = cluster === "mainnet" ? "" : `?cluster=${cluster}`;
+  return `https://explorer.solana.com/tx/${sig}${suffix}`;
+}
+
 // -------------------- Solana Pay deep link --------------------
 export function buildSolanaPayUrl(
   to: string,
   amount: number,
   label: string,
-  message?: string
+  message?: string,
+  extra?: { splToken?: string; memo?: string | null; reference?: string }
 ) {
   const u = new URL(`solana:${to}`);
   if (amount > 0) u.searchParams.set("amount", String(amount));
+  if (extra?.splToken) u.searchParams.set("spl-token", extra.splToken);
+  if (extra?.reference) u.searchParams.set("reference", extra.reference);
   if (label) u.searchParams.set("label", label);
   if (message) u.searchParams.set("message", message);
+  if (extra?.memo) u.searchParams.set("memo", extra.memo);
   return u.toString();
 }
+
+// Solana Pay transaction request: solana:<url-encoded https link>
+// (see netlify/functions/tip-tx.ts for the server side)
+export function buildTransactionRequestUrl(
+  endpoint: string,
+  params: Record<string, string | number | undefined | null>
+) {
+  const u = new URL(endpoint, typeof location !== "undefined" ? location.href : undefined);
+  for (const [k, v] of Object.entries(params)) {
+    if (v !== undefined && v !== null && v !== "") u.searchParams.set(k, String(v));
+  }
+  return `solana:${encodeURIComponent(u.toString())}`;
+}
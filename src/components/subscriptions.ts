@@ -0,0 +1,558 @@
+// src/components/subscriptions.ts
+// Recurring tips ("Support monthly"), scheduled locally — nothing leaves the browser.
+// - Subscriptions are stored per wallet in localStorage: amount, token, recipient, cadence, next due date
+// - A reminder banner shows whatever is due when the user comes back; "Tip now" pre-fills the
+//   Tip Jar and sends through its normal flow (fees, review, confirmation)
+// - Panel to pause / edit / cancel
+// - Optional prepaid batch: durable-nonce tip transactions signed now and submitted when due.
+//   Each uses its own nonce account (rent is reclaimable); withdrawing the nonces voids them.
+//   The tip instructions (memo, split shares) are the ones a one-off payment would send.
+
+import {
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import type { Cluster } from "./config";
+import { getCluster } from "./solana";
+import { getRpcConnection, withFailover } from "./rpc";
+import { prioritize } from "./fees";
+import { buildTipInstructions } from "./tiptx";
+import type { TipSplit } from "./tiptx";
+import { tipTokens } from "./tokens";
+import type { TipToken } from "./tokens";
+import { reviewTransaction, TxPreviewError } from "./txpreview";
+import { trackConfirmation } from "./txconfirm";
+import { showToast } from "./toast";
+import { getWallet, onWalletChange, requireWallet } from "./wallet";
+import type { StonkyWallet } from "./wallet";
+
+export type Cadence = "weekly" | "monthly";
+
+// A pre-signed tip; valid until its nonce account advances or is withdrawn
+export type PrepaidTip = {
+  due: number;
+  nonce: string; // nonce account (base58)
+  tx: string; // signed v0 transaction, base64
+};
+
+export type Subscription = {
+  id: string;
+  cluster: Cluster;
+  recipient: string; // base58
+  label: string; // "alice.sol" or a short key
+  amount: number; // UI units of `token`
+  token: string; // tip token symbol
+  cadence: Cadence;
+  nextDue: number; // ms
+  paused: boolean;
+  createdAt: number;
+  prepaid?: PrepaidTip[]; // oldest first
+  nonces?: string[]; // nonce accounts we created (hold rent until withdrawn)
+};
+
+/** What the Tip Jar provides: its current inputs, and a way to send through its own flow. */
+export type SubscriptionHost = {
+  current(): Promise<{ amount: number; token: TipToken; recipient: string; label: string }>;
+  pay(sub: Subscription): Promise<boolean>; // true once the tip landed
+  tipInputs(sub: Subscription): Promise<{ memo: string | null; splits: TipSplit[] }>; // what pay() would send
+};
+
+const STORE_PREFIX = "stonky:subs:";
+const DAY_MS = 24 * 60 * 60_000;
+const SNOOZE_MS = DAY_MS;
+export const PREPAY_MAX = 3; // nonce setup for 3 accounts still fits one transaction
+
+const BANNER_ID = "sub-due";
+const PANEL_ID = "subs-panel";
+const CADENCES: Cadence[] = ["weekly", "monthly"];
+
+let host: SubscriptionHost | null = null;
+let busy = false;
+
+// -------------------- storage --------------------
+export function loadSubscriptions(wallet: string): Subscription[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(STORE_PREFIX + wallet) || "[]");
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSubscriptions(wallet: string, list: Subscription[]) {
+  try {
+    localStorage.setItem(STORE_PREFIX + wallet, JSON.stringify(list));
+  } catch (e) {
+    console.warn("[Subs] save failed:", e);
+  }
+}
+
+/** Replace (or, when `patch` returns null, delete) one subscription. */
+function updateSubscription(wallet: string, id: string, patch: (s: Subscription) => Subscription | null) {
+  const out: Subscription[] = [];
+  for (const s of loadSubscriptions(wallet)) {
+    const next = s.id === id ? patch(s) : s;
+    if (next) out.push(next);
+  }
+  saveSubscriptions(wallet, out);
+  render();
+}
+
+// -------------------- schedule --------------------
+export function addCadence(at: number, cadence: Cadence): number {
+  if (cadence === "weekly") return at + 7 * DAY_MS;
+  const d = new Date(at);
+  const day = d.getDate();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + 1);
+  const last = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate(); // Jan 31 → Feb 28/29
+  d.setDate(Math.min(day, last));
+  return d.getTime();
+}
+
+/** Due date after a payment: one period on, skipping periods that were missed entirely. */
+export function advanceDue(due: number, cadence: Cadence, now = Date.now()): number {
+  let next = addCadence(due, cadence);
+  while (next <= now) next = addCadence(next, cadence);
+  return next;
+}
+
+export function dueSubscriptions(list: Subscription[], cluster: Cluster, now = Date.now()): Subscription[] {
+  return list.filter((s) => !s.paused && s.cluster === cluster && s.nextDue <= now);
+}
+
+function markPaid(wallet: string, id: string) {
+  updateSubscription(wallet, id, (s) => ({ ...s, nextDue: advanceDue(s.nextDue, s.cadence) }));
+}
+
+// -------------------- durable nonces --------------------
+async function nonceValues(keys: PublicKey[]): Promise<string[]> {
+  const infos = await withFailover((c) => c.getMultipleAccountsInfo(keys, "confirmed"), "getMultipleAccountsInfo");
+  return infos.map((info, i) => {
+    if (!info) throw new Error(`Nonce account ${keys[i].toBase58().slice(0, 4)}… not found.`);
+    return NonceAccount.fromAccountData(info.data).nonce;
+  });
+}
+
+/** Creates `count` nonce accounts in one wallet-signed transaction. */
+async function createNonces(wallet: StonkyWallet, payer: PublicKey, count: number): Promise<PublicKey[]> {
+  const kps = Array.from({ length: count }, () => Keypair.generate());
+  const rent = await withFailover(
+    (c) => c.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH),
+    "getMinimumBalanceForRentExemption"
+  );
+  const { blockhash, lastValidBlockHeight } = await withFailover(
+    (c) => c.getLatestBlockhash("confirmed"),
+    "getLatestBlockhash"
+  );
+  const tx = new Transaction();
+  for (const kp of kps) {
+    tx.add(
+      SystemProgram.createNonceAccount({
+        fromPubkey: payer,
+        noncePubkey: kp.publicKey,
+        authorizedPubkey: payer,
+        lamports: rent,
+      })
+    );
+  }
+  tx.feePayer = payer;
+  tx.recentBlockhash = blockhash;
+  const { estimate } = await withFailover((c) => prioritize(c, tx), "prioritize");
+
+  const conn = getRpcConnection();
+  await reviewTransaction(conn, tx, {
+    title: `Set up ${count} prepaid tip${count > 1 ? "s" : ""}`,
+    watch: [{ label: "You", address: payer }],
+    estimate,
+  });
+  tx.partialSign(...kps); // after prioritize: the message must not change any more
+  const sig = await wallet.signAndSendTransaction(tx, conn);
+  await trackConfirmation(sig, { lastValidBlockHeight, flow: "prepay" });
+  return kps.map((kp) => kp.publicKey);
+}
+
+async function prepay(sub: Subscription, count: number) {
+  const wallet = await requireWallet();
+  const payer = wallet?.publicKey;
+  if (!wallet || !payer) return;
+  const owner = payer.toBase58();
+  const token = tipTokens(sub.cluster).find((t) => t.symbol === sub.token);
+  if (!token) throw new Error(`${sub.token} isn't available on ${sub.cluster}.`);
+
+  // free nonce accounts from an earlier batch are reused
+  const nonces = (sub.nonces ?? []).slice(0, count).map((k) => new PublicKey(k));
+  if (nonces.length < count) {
+    const created = await createNonces(wallet, payer, count - nonces.length);
+    nonces.push(...created);
+    updateSubscription(owner, sub.id, (s) => ({
+      ...s,
+      nonces: [...(s.nonces ?? []), ...created.map((k) => k.toBase58())],
+    }));
+  }
+
+  const values = await nonceValues(nonces);
+  const { memo, splits } = host ? await host.tipInputs(sub) : { memo: null, splits: [] };
+  const tipIxs = await withFailover(
+    (c) => buildTipInstructions(c, { payer, recipient: new PublicKey(sub.recipient), amount: sub.amount, token, memo, splits }),
+    "buildTipInstructions"
+  );
+  // nonceAdvance must stay the first instruction, so no compute budget here
+  const txs = nonces.map(
+    (noncePubkey, i) =>
+      new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: payer,
+          recentBlockhash: values[i],
+          instructions: [SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: payer }), ...tipIxs],
+        }).compileToV0Message()
+      )
+  );
+  const signed = await wallet.signAllTransactions(txs);
+
+  let due = sub.nextDue;
+  const prepaid: PrepaidTip[] = signed.map((tx, i) => {
+    const entry = { due, nonce: nonces[i].toBase58(), tx: Buffer.from(tx.serialize()).toString("base64") };
+    due = addCadence(due, sub.cadence);
+    return entry;
+  });
+  updateSubscription(owner, sub.id, (s) => ({ ...s, prepaid }));
+  showToast(`${count} tip${count > 1 ? "s" : ""} prepaid — submit each one when it's due.`, "success");
+}
+
+async function submitPrepaid(sub: Subscription): Promise<boolean> {
+  const owner = getWallet()?.publicKey?.toBase58();
+  const [entry, ...rest] = sub.prepaid ?? [];
+  if (!owner || !entry) return false;
+  try {
+    const raw = Buffer.from(entry.tx, "base64");
+    const sig = await withFailover((c) => c.sendRawTransaction(raw), "sendRawTransaction", 0);
+    // durable nonce: no blockhash expiry to watch for
+    await trackConfirmation(sig, { lastValidBlockHeight: Number.MAX_SAFE_INTEGER, flow: "subscription" });
+    updateSubscription(owner, sub.id, (s) => ({
+      ...s,
+      prepaid: rest,
+      nextDue: advanceDue(s.nextDue, s.cadence),
+    }));
+    return true;
+  } catch (e: any) {
+    console.warn("[Subs] prepaid submit failed:", e);
+    if (/nonce|blockhash/i.test(String(e?.message || e))) {
+      // nonce advanced or withdrawn elsewhere: this signature can never land
+      updateSubscription(owner, sub.id, (s) => ({ ...s, prepaid: rest }));
+      showToast("That prepaid tip is no longer valid — tip manually instead.", "error");
+    } else {
+      showToast("Couldn't submit the prepaid tip. Try again in a moment.", "error");
+    }
+    return false;
+  }
+}
+
+/** Withdraws every nonce account of `sub` back to the wallet; pending prepaid tips become void. */
+async function releaseNonces(sub: Subscription): Promise<boolean> {
+  const wallet = await requireWallet();
+  const payer = wallet?.publicKey;
+  if (!wallet || !payer) return false;
+  const keys = (sub.nonces ?? []).map((k) => new PublicKey(k));
+  const infos = keys.length
+    ? await withFailover((c) => c.getMultipleAccountsInfo(keys, "confirmed"), "getMultipleAccountsInfo")
+    : [];
+
+  const tx = new Transaction();
+  keys.forEach((noncePubkey, i) => {
+    const info = infos[i];
+    if (!info) return; // already gone
+    tx.add(SystemProgram.nonceWithdraw({ noncePubkey, authorizedPubkey: payer, toPubkey: payer, lamports: info.lamports }));
+  });
+
+  if (tx.instructions.length) {
+    const { blockhash, lastValidBlockHeight } = await withFailover(
+      (c) => c.getLatestBlockhash("confirmed"),
+      "getLatestBlockhash"
+    );
+    tx.feePayer = payer;
+    tx.recentBlockhash = blockhash;
+    const { estimate } = await withFailover((c) => prioritize(c, tx), "prioritize");
+    const conn = getRpcConnection();
+    await reviewTransaction(conn, tx, {
+      title: "Withdraw prepaid nonce accounts",
+      watch: [{ label: "You", address: payer }],
+      estimate,
+    });
+    const sig = await wallet.signAndSendTransaction(tx, conn);
+    await trackConfirmation(sig, { lastValidBlockHeight, flow: "prepay" });
+  }
+  updateSubscription(payer.toBase58(), sub.id, (s) => ({ ...s, prepaid: [], nonces: [] }));
+  return true;
+}
+
+// -------------------- UI --------------------
+function escapeHtml(s?: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
+const fmtDate = (ms: number) => new Date(ms).toLocaleDateString();
+
+function ownerKey(): string | null {
+  return getWallet()?.publicKey?.toBase58() ?? null;
+}
+
+function mine(): Subscription[] {
+  const owner = ownerKey();
+  return owner ? loadSubscriptions(owner).filter((s) => s.cluster === getCluster()) : [];
+}
+
+function ensureBanner(): HTMLElement | null {
+  let el = document.getElementById(BANNER_ID);
+  if (el) return el;
+  const anchor = document.getElementById("custom-tip-label");
+  if (!anchor) return null;
+  el = document.createElement("div");
+  el.id = BANNER_ID;
+  el.setAttribute("role", "status");
+  el.className = "hidden rounded-lg border border-[#14F195]/40 bg-[#14F195]/10 px-3 py-2 text-xs";
+  anchor.insertAdjacentElement("beforebegin", el);
+  return el;
+}
+
+function ensurePanel(): HTMLElement | null {
+  let el = document.getElementById(PANEL_ID);
+  if (el) return el;
+  const feed = document.getElementById("tip-feed");
+  if (!feed) return null;
+  el = document.createElement("details");
+  el.id = PANEL_ID;
+  el.className = "hidden rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-xs";
+  el.innerHTML = `
+    <summary class="cursor-pointer font-semibold">Your subscriptions <span id="subs-count" class="text-white/50"></span></summary>
+    <ul id="subs-list" class="grid gap-2 mt-2"></ul>`;
+  feed.insertAdjacentElement("beforebegin", el);
+  el.addEventListener("click", onPanelClick);
+  el.addEventListener("submit", onEditSubmit);
+  return el;
+}
+
+function ensureSupportButton() {
+  if (document.getElementById("support-monthly")) return;
+  const qr = document.getElementById("qr-tip");
+  if (!qr) return;
+  const btn = document.createElement("button");
+  btn.id = "support-monthly";
+  btn.type = "button";
+  btn.className =
+    "px-3 py-2 rounded-lg border border-white/15 bg-white/10 text-sm whitespace-nowrap hover:bg-white/15 transition focus-glow";
+  btn.dataset.tip = "Tip this amount every month (reminders stay in this browser)";
+  btn.textContent = "Support monthly";
+  qr.insertAdjacentElement("afterend", btn);
+  btn.onclick = () => void supportMonthly();
+}
+
+function renderBanner() {
+  const el = ensureBanner();
+  if (!el) return;
+  const due = dueSubscriptions(mine(), getCluster());
+  if (!due.length) {
+    el.classList.add("hidden");
+    return;
+  }
+  const s = due[0];
+  const prepaid = !!s.prepaid?.length;
+  el.innerHTML = `
+    <div>Your ${s.cadence} tip of <b>${s.amount} ${escapeHtml(s.token)}</b> to <b>${escapeHtml(s.label)}</b> is due${
+      due.length > 1 ? ` <span class="text-white/60">(+${due.length - 1} more)</span>` : ""
+    }.</div>
+    <div class="flex gap-2 mt-2">
+      <button type="button" data-due="pay" class="btn-grad px-2 py-1 rounded font-semibold">${prepaid ? "Submit prepaid tip" : "Tip now"}</button>
+      <button type="button" data-due="snooze" class="px-2 py-1 rounded border border-white/15 bg-white/10 hover:bg-white/15">Remind me tomorrow</button>
+    </div>`;
+  el.classList.remove("hidden");
+  el.querySelector<HTMLButtonElement>('[data-due="pay"]')!.onclick = () => void pay(s);
+  el.querySelector<HTMLButtonElement>('[data-due="snooze"]')!.onclick = () => {
+    const owner = ownerKey();
+    if (owner) updateSubscription(owner, s.id, (x) => ({ ...x, nextDue: Date.now() + SNOOZE_MS }));
+  };
+}
+
+function renderRow(s: Subscription) {
+  const pending = s.prepaid?.length ?? 0;
+  const nonces = s.nonces?.length ?? 0;
+  const btn = (act: string, label: string) =>
+    `<button type="button" data-act="${act}" class="px-2 py-1 rounded border border-white/15 bg-white/10 hover:bg-white/15">${label}</button>`;
+  const status = s.paused ? "Paused" : `Next: ${fmtDate(s.nextDue)}`;
+  return `<li data-sub="${escapeHtml(s.id)}" class="rounded-lg border border-white/10 bg-white/5 px-3 py-2">
+      <div class="flex items-center justify-between gap-2">
+        <span><b>${s.amount} ${escapeHtml(s.token)}</b> → ${escapeHtml(s.label)}</span>
+        <span class="text-white/50">${s.cadence}</span>
+      </div>
+      <div class="text-white/50 mt-1">${status}${pending ? ` · ${pending} prepaid` : ""}</div>
+      <div class="flex flex-wrap gap-2 mt-2">
+        ${btn("toggle", s.paused ? "Resume" : "Pause")}
+        ${btn("edit", "Edit")}
+        ${btn("cancel", "Cancel")}
+        ${
+          pending
+            ? btn("release", "Void prepaid")
+            : nonces
+            ? `${btn("prepay", "Prepay")} ${btn("release", "Reclaim nonce rent")}`
+            : btn("prepay", "Prepay")
+        }
+      </div>
+      <form data-edit class="hidden flex items-center gap-2 mt-2">
+        <input name="amount" type="number" step="any" min="0" value="${s.amount}" class="w-24 bg-white/5 border border-white/10 rounded px-2 py-1 focus-glow" />
+        <span>${escapeHtml(s.token)}</span>
+        <select name="cadence" class="bg-white/5 border border-white/10 rounded px-2 py-1 focus-glow">
+          ${CADENCES.map((c) => `<option value="${c}" class="bg-[#0b1020]" ${c === s.cadence ? "selected" : ""}>${c}</option>`).join("")}
+        </select>
+        <button type="submit" class="btn-grad px-2 py-1 rounded font-semibold">Save</button>
+      </form>
+    </li>`;
+}
+
+function render() {
+  renderBanner();
+  const panel = ensurePanel();
+  if (!panel) return;
+  const list = mine();
+  panel.classList.toggle("hidden", !list.length);
+  document.getElementById("subs-count")!.textContent = list.length ? `(${list.length})` : "";
+  document.getElementById("subs-list")!.innerHTML = list.map(renderRow).join("");
+}
+
+// -------------------- actions --------------------
+async function run(work: () => Promise<unknown>) {
+  if (busy) return;
+  busy = true;
+  try {
+    await work();
+  } catch (e: any) {
+    if (e instanceof TxPreviewError || e?.code === 4001 || /reject/i.test(String(e?.message || ""))) return;
+    console.warn("[Subs] action failed:", e);
+    showToast(String(e?.message || "Something went wrong."), "error");
+  } finally {
+    busy = false;
+    render();
+  }
+}
+
+function pay(sub: Subscription) {
+  return run(async () => {
+    if (sub.prepaid?.length) {
+      if (await submitPrepaid(sub)) showToast(`Prepaid tip to ${sub.label} sent ✓`, "success");
+      return;
+    }
+    if (!host) return;
+    const owner = ownerKey();
+    if ((await host.pay(sub)) && owner) markPaid(owner, sub.id);
+  });
+}
+
+function supportMonthly() {
+  return run(async () => {
+    if (!host) return;
+    const wallet = await requireWallet();
+    const owner = wallet?.publicKey?.toBase58();
+    if (!owner) return;
+    const cur = await host.current();
+    if (!cur.amount || cur.amount <= 0) {
+      showToast("Enter an amount first.", "error");
+      return;
+    }
+    const sub: Subscription = {
+      id: crypto.randomUUID(),
+      cluster: getCluster(),
+      recipient: cur.recipient,
+      label: cur.label,
+      amount: cur.amount,
+      token: cur.token.symbol,
+      cadence: "monthly",
+      nextDue: Date.now(),
+      paused: false,
+      createdAt: Date.now(),
+    };
+    saveSubscriptions(owner, [...loadSubscriptions(owner), sub]);
+    render();
+    // first tip right away; if it doesn't go through, the reminder banner picks it up
+    if (await host.pay(sub)) {
+      markPaid(owner, sub.id);
+      const next = loadSubscriptions(owner).find((s) => s.id === sub.id)?.nextDue;
+      showToast(`Monthly tip set up — next reminder ${next ? fmtDate(next) : "next month"}.`, "success");
+    }
+  });
+}
+
+function onPanelClick(e: Event) {
+  const btn = (e.target as HTMLElement).closest<HTMLButtonElement>("[data-act]");
+  const row = btn?.closest<HTMLElement>("[data-sub]");
+  const owner = ownerKey();
+  if (!btn || !row || !owner) return;
+  const sub = loadSubscriptions(owner).find((s) => s.id === row.dataset.sub);
+  if (!sub) return;
+
+  switch (btn.dataset.act) {
+    case "toggle":
+      updateSubscription(owner, sub.id, (s) =>
+        // resuming doesn't bill the paused months: the next tip is due from today
+        s.paused ? { ...s, paused: false, nextDue: Math.max(s.nextDue, Date.now()) } : { ...s, paused: true }
+      );
+      break;
+    case "edit":
+      if (sub.prepaid?.length) {
+        showToast("Void the prepaid tips first — they were signed for the old amount.", "error");
+        return;
+      }
+      row.querySelector("[data-edit]")?.classList.toggle("hidden");
+      break;
+    case "cancel":
+      void run(async () => {
+        if (sub.nonces?.length && !(await releaseNonces(sub))) return;
+        updateSubscription(owner, sub.id, () => null);
+        showToast(`Subscription to ${sub.label} cancelled.`, "success");
+      });
+      break;
+    case "prepay":
+      void run(() => prepay(sub, PREPAY_MAX));
+      break;
+    case "release":
+      void run(async () => {
+        if (await releaseNonces(sub)) showToast("Nonce accounts withdrawn.", "success");
+      });
+      break;
+  }
+}
+
+function onEditSubmit(e: Event) {
+  const form = e.target as HTMLFormElement;
+  const row = form.closest<HTMLElement>("[data-sub]");
+  const owner = ownerKey();
+  if (!form.matches("[data-edit]") || !row || !owner) return;
+  e.preventDefault();
+  const amount = Number((form.elements.namedItem("amount") as HTMLInputElement).value);
+  const cadence = (form.elements.namedItem("cadence") as HTMLSelectElement).value as Cadence;
+  if (!amount || amount <= 0 || !CADENCES.includes(cadence)) {
+    showToast("Enter a valid amount.", "error");
+    return;
+  }
+  updateSubscription(owner, row.dataset.sub!, (s) => ({ ...s, amount, cadence }));
+}
+
+export function initSubscriptions(h: SubscriptionHost) {
+  host = h;
+  ensureSupportButton();
+  ensureBanner();
+  ensurePanel();
+
+  onWalletChange(() => render());
+  window.addEventListener("stonky:clusterChanged", render);
+  // coming back to the tab is when a reminder matters
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") render();
+  });
+  render();
+}
@@ -0,0 +1,95 @@
+// src/components/tipevents.ts
+// Leaderboard tip rule, shared by the client scan (leaderboard.ts), the feed indexer
+// (scripts/indexer/leaderboard.ts) and the live-feed webhook, each adapting its transaction shape:
+// - Only top-level SystemProgram transfers count (not balance changes: fees, pings, account rent)
+// - Transactions carrying a feed memo (post / like / mod, see memoproto.ts) are never tips: the
+//   registry ping, the like fee and the like's tip to its author belong to the feed
+// - A transfer into the owner is a tip from the wallet the SOL comes from; the owner paying
+//   itself is ignored
+// - A transfer from the owner is a refund only when it goes back to a wallet that tipped before
+//   (`tipped`, which the caller carries across transactions, oldest first)
+// Token transfers aren't ranked (no price to compare them with SOL), so they're not events here.
+
+import bs58 from "bs58";
+import { decodeFeedMemo } from "./memoproto";
+
+export type TipEvent = {
+  from: string; // tipper (or refunded tipper)
+  lamports: number; // negative → refund
+  ts: number; // unix seconds
+  sig: string;
+};
+
+// One top-level instruction with its accounts resolved; data base58 (RPC json, Helius) or bytes
+export type TipInstruction = { programId: string; accounts: string[]; data: string | Uint8Array };
+
+export type TipTx = {
+  sig: string;
+  ts: number; // unix seconds
+  failed: boolean;
+  instructions: TipInstruction[];
+};
+
+const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+const MEMO_PROGRAM = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+const TRANSFER = 2; // SystemInstruction::Transfer: u32 LE 2 + u64 LE lamports
+
+function bytesOf(data: string | Uint8Array): Uint8Array | null {
+  if (typeof data !== "string") return data;
+  try {
+    return bs58.decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/** Lamports of a plain SystemProgram transfer, or null for any other instruction. */
+function transferLamports(ix: TipInstruction): number | null {
+  if (ix.programId !== SYSTEM_PROGRAM || ix.accounts.length < 2) return null;
+  const b = bytesOf(ix.data);
+  if (!b || b.length !== 12) return null;
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  return view.getUint32(0, true) === TRANSFER ? Number(view.getBigUint64(4, true)) : null;
+}
+
+function hasFeedMemo(ixs: TipInstruction[]): boolean {
+  return ixs.some((ix) => {
+    if (ix.programId !== MEMO_PROGRAM) return false;
+    const b = bytesOf(ix.data);
+    return !!b && decodeFeedMemo(new TextDecoder().decode(b)) !== null;
+  });
+}
+
+/**
+ * Tip / refund events of one transaction, seen from `owner`. `tipped` holds the wallets that
+ * tipped in earlier transactions and gains this one's tippers, so feed transactions oldest first.
+ */
+export function tipEventsOf(tx: TipTx, owner: string, tipped: Set<string>): TipEvent[] {
+  if (tx.failed || hasFeedMemo(tx.instructions)) return [];
+  const out: TipEvent[] = [];
+  for (const ix of tx.instructions) {
+    const lamports = transferLamports(ix);
+    const [from, to] = ix.accounts;
+    if (!lamports || from === to) continue;
+    if (to === owner) out.push({ from, lamports, ts: tx.ts, sig: tx.sig });
+    else if (from === owner && tipped.has(to)) out.push({ from: to, lamports: -lamports, ts: tx.ts, sig: tx.sig });
+  }
+  for (const ev of out) if (ev.lamports > 0) tipped.add(ev.from);
+  return out;
+}
+
+/** TipTx of a transaction in the RPC shape (web3.js getTransaction or raw "json"), `keys` resolved. */
+export function tipTxOf(tx: any, keys: string[], sig: string): TipTx {
+  const msg = tx.transaction?.message || {};
+  const ixs: any[] = msg.compiledInstructions ?? msg.instructions ?? [];
+  return {
+    sig,
+    ts: tx.blockTime || 0,
+    failed: !!tx.meta?.err,
+    instructions: ixs.map((ix) => ({
+      programId: keys[ix.programIdIndex],
+      accounts: (ix.accountKeyIndexes ?? ix.accounts ?? []).map((i: number) => keys[i]),
+      data: ix.data ?? "",
+    })),
+  };
+}
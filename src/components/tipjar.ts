@@ -1,22 +1,55 @@
 // src/components/tipjar.ts
 //
 // Binds the Tip Jar UI:
-// - Connect/Disconnect Phantom
+// - Connect/Disconnect any Solana wallet (picker lives in wallet.ts)
 // - Send preset/custom tips (desktop → wallet, mobile → Solana Pay/QR fallback)
-// - QR modal (Solana Pay deep link) with lazy-loaded QR lib
-// - Recent tips feed (last 10) with polite polling/backoff
-
+// - Token selector (SOL, USDC, USDT + VITE_TIP_TOKENS) for SPL tips
+// - Optional "from: @handle" + message memo, shown back in the feed
+// - "Support monthly": local recurring tips with due reminders (subscriptions.ts)
+// - Split mode (VITE_TIP_SPLITS): one tip shared by percentage with collaborators, breakdown shown before signing
+// - Priority fee presets (Low/Normal/Turbo) with the network fee shown before signing
+// - QR modal (Solana Pay deep link) with lazy-loaded QR lib + live payment detection
+// - Optional transaction-request QR (solana:https://…) when VITE_TX_REQUEST_URL is set
+// - Recent tips feed (last 10): live over websockets (livefeed.ts) with polite polling/backoff as fallback
+
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
 import {
   buildSolanaPayUrl,
+  buildTransactionRequestUrl,
   ensureRecipient,
+  explorerTxUrl,
   getCluster,
-  getProvider,
   getConnection,
+  isCustomRecipient,
   loadRecentTips,
+  recipientLabel,
   sendTip,
+  tipAddresses,
 } from "./solana";
+import { formatTipMemo, TIP_HANDLE_MAX, TIP_MESSAGE_MAX } from "./memoproto";
 import { CONFIG } from "./config";
-import type { PublicKey } from "@solana/web3.js";
+import { SOL_TOKEN, tipTokens } from "./tokens";
+import { showToast } from "./toast";
+import { newReference, PaymentWatchError, watchPayment } from "./paywatch";
+import { startLiveTips } from "./livefeed";
+import { initSubscriptions } from "./subscriptions";
+import type { Subscription } from "./subscriptions";
+import { emitTxProgress, trackConfirmation, TxConfirmError } from "./txconfirm";
+import { FEE_LEVELS, getFeeLevel, quoteFee, setFeeLevel } from "./fees";
+import type { FeeEstimate, FeeLevel } from "./fees";
+import { TxPreviewError } from "./txpreview";
+import { withFailover } from "./rpc";
+import type { SentTip } from "./solana";
+import type { LiveStatus } from "./livefeed";
+import type { ExpectedPayment } from "./paywatch";
+import type { TipToken } from "./tokens";
+import type { TipSplit } from "./tiptx";
+import {
+  listWallets,
+  onWalletChange,
+  openWalletPicker,
+  requireWallet,
+} from "./wallet";
 
 // -------------------- tiny utils --------------------
 const IS_MOBILE = /Android|iPhone|iPad|iPod/i.test(navigator.userAgent || "");
@@ -28,7 +61,13 @@ const $ = <T extends HTMLElement = HTMLElement>(sel: string) => {
 
 let refreshTimer: number | null = null;
 let refreshing = false;
+let refreshAgain = false; // a live nudge arrived mid-refresh
 let backoffMs = 0;
+let pollMs = 60_000; // relaxed to a safety net while the websocket is live
+let shownSigs: Set<string> | null = null; // null until the first render (no animation then)
+
+const POLL_MS = 60_000;
+const LIVE_SAFETY_POLL_MS = 5 * 60_000;
 
 function scheduleRefresh(ms: number) {
   if (refreshTimer) window.clearTimeout(refreshTimer);
@@ -39,9 +78,53 @@ function formatWhen(ts?: number) {
   return ts ? new Date(ts * 1000).toLocaleString() : "";
 }
 
+function escapeHtml(s?: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
 // -------------------- feed --------------------
+function ensureFeedStatus(): HTMLElement {
+  let el = document.getElementById("tip-feed-status");
+  if (el) return el;
+  el = document.createElement("div");
+  el.id = "tip-feed-status";
+  el.className = "text-xs text-white/50 mt-2";
+  $("#tip-feed").before(el);
+  return el;
+}
+
+function setFeedStatus(s: LiveStatus) {
+  const el = ensureFeedStatus();
+  el.innerHTML =
+    s === "live"
+      ? `<span class="text-[#14F195]">●</span> Live`
+      : s === "connecting"
+      ? `<span class="text-white/40">●</span> Connecting…`
+      : `<span class="text-white/40">●</span> Refreshing every minute`;
+  pollMs = s === "live" ? LIVE_SAFETY_POLL_MS : POLL_MS;
+}
+
+function animateNewTips(feed: HTMLElement, sigs: string[]) {
+  const prev = shownSigs;
+  shownSigs = new Set(sigs);
+  if (!prev) return;
+  feed.querySelectorAll<HTMLElement>("li[data-sig]").forEach((li) => {
+    if (prev.has(li.dataset.sig!)) return;
+    li.animate?.(
+      [
+        { opacity: 0, transform: "translateY(-6px)", boxShadow: "0 0 0 1px #14F195" },
+        { opacity: 1, transform: "none", boxShadow: "0 0 0 1px transparent" },
+      ],
+      { duration: 900, easing: "ease-out" }
+    );
+  });
+}
+
 async function refreshFeed() {
-  if (refreshing) return;
+  if (refreshing) {
+    refreshAgain = true;
+    return;
+  }
   refreshing = true;
   try {
     const items = await loadRecentTips();
@@ -50,24 +133,38 @@ async function refreshFeed() {
     if (!items.length) {
       feed.innerHTML = `<li class="text-white/60 text-sm">No recent tips yet.</li>`;
     } else {
-      const cluster = getCluster();
-      const clusterSuffix = cluster === "mainnet" ? "" : `?cluster=${cluster}`;
       feed.innerHTML = items
         .map((i) => {
-          const link = `https://explorer.solana.com/tx/${i.sig}${clusterSuffix}`;
-          return `<li class="glass rounded px-3 py-2 border border-white/10 flex items-center justify-between">
-              <div>
-                <a class="underline" href="${link}" target="_blank" rel="noopener">${i.sig.slice(0, 4)}…${i.sig.slice(-4)}</a>
-                <span class="ml-2 text-white/70">${i.sol} SOL</span>
+          const link = explorerTxUrl(i.sig);
+          const note =
+            i.handle || i.message
+              ? `<div class="text-xs text-white/80 mt-1 break-words">${
+                  i.handle ? `<span class="text-[#14F195]">@${escapeHtml(i.handle)}</span> ` : ""
+                }${escapeHtml(i.message)}</div>`
+              : "";
+          return `<li data-sig="${i.sig}" class="glass rounded px-3 py-2 border border-white/10">
+              <div class="flex items-center justify-between">
+                <div>
+                  <a class="underline" href="${link}" target="_blank" rel="noopener">${i.sig.slice(0, 4)}…${i.sig.slice(-4)}</a>
+                  <span class="ml-2 text-white/70">${i.amount} ${escapeHtml(i.symbol)}</span>${
+                    i.split
+                      ? ` <span class="text-xs text-white/50" title="${escapeHtml(
+                          i.split.map((p) => `${p.label} ${p.amount}`).join(" · ")
+                        )}">· split ${i.split.length} ways</span>`
+                      : ""
+                  }
+                </div>
+                <div class="text-xs text-white/50">${formatWhen(i.when)}</div>
               </div>
-              <div class="text-xs text-white/50">${formatWhen(i.when)}</div>
+              ${note}
             </li>`;
         })
         .join("");
+      animateNewTips(feed, items.map((i) => i.sig));
     }
 
     backoffMs = 0;
-    scheduleRefresh(60_000); // every 60s
+    scheduleRefresh(pollMs); // every 60s (5 min while live)
   } catch (e: any) {
     const is429 =
       String(e?.message || e).includes("429") ||
@@ -76,6 +173,10 @@ async function refreshFeed() {
     scheduleRefresh(is429 ? Math.max(60_000, backoffMs) : Math.max(45_000, backoffMs));
   } finally {
     refreshing = false;
+    if (refreshAgain) {
+      refreshAgain = false;
+      scheduleRefresh(1_500);
+    }
   }
 }
 
@@ -83,9 +184,13 @@ async function updateOwnerLabel() {
   const el = $("#owner-sol");
   try {
     const to = await ensureRecipient();
-    el.textContent = `${to.slice(0, 4)}…${to.slice(-4)}`;
-  } catch {
+    el.textContent = recipientLabel(to);
+    el.title = to;
+    const inline = document.getElementById("owner-sol-inline");
+    if (inline) inline.textContent = recipientLabel(to);
+  } catch (e: any) {
     el.textContent = "—";
+    if (isCustomRecipient()) showToast(String(e?.message || "Unknown recipient."), "error");
   }
 }
 
@@ -170,7 +275,65 @@ async function renderQr(solUrl: string) {
   drawQrFallbackToCanvas(canvas, solUrl);
 }
 
-async function openQr(solUrl: string, amount: number, recipient: string) {
+// -------------------- QR payment status --------------------
+let qrWatch: AbortController | null = null;
+
+function setQrStatus(html: string, tone: "wait" | "ok" | "warn" = "wait") {
+  let el = document.getElementById("qr-status");
+  if (!el) {
+    el = document.createElement("div");
+    el.id = "qr-status";
+    $("#qr-recipient").closest("div")?.parentElement?.insertAdjacentElement("afterend", el);
+  }
+  const color = tone === "ok" ? "text-[#14F195]" : tone === "warn" ? "text-amber-300" : "text-white/70";
+  el.className = `mt-3 text-sm ${color}`;
+  el.innerHTML = html;
+}
+
+function stopQrWatch() {
+  qrWatch?.abort();
+  qrWatch = null;
+}
+
+async function startQrWatch(exp: ExpectedPayment) {
+  stopQrWatch();
+  const ctl = new AbortController();
+  qrWatch = ctl;
+  setQrStatus("Waiting for payment…");
+  try {
+    const sig = await watchPayment(exp, { signal: ctl.signal });
+    if (ctl.signal.aborted) return;
+    setQrStatus(
+      `Received — thank you! <a class="underline" href="${explorerTxUrl(sig)}" target="_blank" rel="noopener">View on explorer</a>`,
+      "ok"
+    );
+    $("#qr-canvas").classList.add("hidden");
+    document.getElementById("qr-box")?.classList.add("hidden");
+    scheduleRefresh(4_000);
+  } catch (e) {
+    if (ctl.signal.aborted) return;
+    if (e instanceof PaymentWatchError && e.code === "timeout") {
+      setQrStatus("Still no payment detected. Reopen the QR to try again.", "warn");
+    } else if (e instanceof PaymentWatchError && e.sig) {
+      setQrStatus(
+        `${e.message} <a class="underline" href="${explorerTxUrl(e.sig)}" target="_blank" rel="noopener">Check transaction</a>`,
+        "warn"
+      );
+    } else {
+      setQrStatus("Couldn't check for the payment.", "warn");
+    }
+  } finally {
+    if (qrWatch === ctl) qrWatch = null;
+  }
+}
+
+async function openQr(
+  solUrl: string,
+  amount: number,
+  recipient: string,
+  symbol = "SOL",
+  watch?: ExpectedPayment
+) {
   lastSolUrl = solUrl;
 
   const backdrop = $("#qr-backdrop");
@@ -180,6 +343,8 @@ async function openQr(solUrl: string, amount: number, recipient: string) {
 
   amt.textContent = String(amount);
   rec.textContent = recipient;
+  const sym = document.getElementById("qr-symbol");
+  if (sym) sym.textContent = symbol;
 
   if (IS_MOBILE) {
     openBtn.href = buildPhantomUniversal(solUrl);
@@ -190,12 +355,17 @@ async function openQr(solUrl: string, amount: number, recipient: string) {
     openBtn.classList.add("hidden");
   }
 
+  document.getElementById("qr-box")?.classList.remove("hidden"); // hidden after a received payment
   await renderQr(solUrl);
   backdrop.classList.remove("hidden");
+  if (watch) startQrWatch(watch);
+  else stopQrWatch();
 }
 
 function wireQrModal() {
   $("#qr-close").addEventListener("click", () => {
+    stopQrWatch();
+    document.getElementById("qr-status")?.remove();
     $("#qr-backdrop").classList.add("hidden");
   });
 
@@ -209,63 +379,374 @@ function wireQrModal() {
   });
 }
 
-// -------------------- send flow --------------------
-async function handleSend(amount: number) {
-  if (!amount || amount <= 0) return;
+// -------------------- token selector --------------------
+function selectedToken(): TipToken {
+  const sel = document.getElementById("tip-token") as HTMLSelectElement | null;
+  return tipTokens(getCluster()).find((t) => t.symbol === sel?.value) ?? SOL_TOKEN;
+}
 
-  const provider = getProvider();
+function ensureTokenSelect() {
+  const input = $("#custom-tip") as HTMLInputElement;
+  let sel = document.getElementById("tip-token") as HTMLSelectElement | null;
+  if (!sel) {
+    sel = document.createElement("select");
+    sel.id = "tip-token";
+    sel.className =
+      "bg-white/5 border border-white/10 rounded-lg px-2 py-2 text-sm focus-glow";
+    input.insertAdjacentElement("beforebegin", sel);
+  }
+  sel.innerHTML = tipTokens(getCluster())
+    .map((t) => `<option value="${t.symbol}" class="bg-[#0b1020]">${t.symbol}</option>`)
+    .join("");
+  sel.onchange = () => {
+    const label = document.getElementById("custom-tip-label");
+    if (label) label.textContent = `Custom amount (${selectedToken().symbol})`;
+    renderSplitBreakdown();
+    void refreshFeeQuote();
+  };
+}
 
-  // No wallet installed
-  if (!provider) {
-    if (IS_MOBILE) {
-      const to = await ensureRecipient();
-      const solUrl = buildSolanaPayUrl(
+// -------------------- memo fields --------------------
+function ensureMemoFields() {
+  if (document.getElementById("tip-memo")) return;
+  const feed = $("#tip-feed");
+  const box = document.createElement("div");
+  box.id = "tip-memo";
+  box.className = "grid grid-cols-3 gap-2";
+  const cls = "bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus-glow";
+  box.innerHTML = `
+    <input id="tip-handle" maxlength="${TIP_HANDLE_MAX}" placeholder="@handle (optional)" class="${cls}" />
+    <input id="tip-message" maxlength="${TIP_MESSAGE_MAX}" placeholder="Message (optional)" class="col-span-2 ${cls}" />`;
+  feed.insertAdjacentElement("beforebegin", box);
+}
+
+function memoInputs() {
+  return {
+    handle: (document.getElementById("tip-handle") as HTMLInputElement | null)?.value || "",
+    message: (document.getElementById("tip-message") as HTMLInputElement | null)?.value || "",
+  };
+}
+
+function currentMemo(): string | null {
+  const { handle, message } = memoInputs();
+  return formatTipMemo(handle, message);
+}
+
+// -------------------- split mode --------------------
+// Only for the configured owner: a ?to= recipient gets the whole tip.
+const SPLIT_KEY = "stonky:split";
+
+function splitOn(): boolean {
+  try {
+    return localStorage.getItem(SPLIT_KEY) !== "0";
+  } catch {
+    return true;
+  }
+}
+
+function activeSplits(): TipSplit[] {
+  return CONFIG.TIP_SPLITS.length && !isCustomRecipient() && splitOn() ? CONFIG.TIP_SPLITS : [];
+}
+
+function renderSplitBreakdown() {
+  const row = document.getElementById("tip-split");
+  const out = document.getElementById("split-breakdown");
+  if (!row || !out) return;
+  row.classList.toggle("hidden", isCustomRecipient());
+  const splits = activeSplits();
+  if (!splits.length) {
+    out.textContent = "";
+    return;
+  }
+  const token = selectedToken();
+  const amount = Number(($("#custom-tip") as HTMLInputElement).value) || 0;
+  const owner = { label: "Owner", percent: 100 - splits.reduce((sum, x) => sum + x.percent, 0) };
+  out.textContent = [owner, ...splits]
+    .filter((p) => p.percent > 0)
+    .map((p) => {
+      const share = amount > 0 ? ` ≈ ${+((amount * p.percent) / 100).toFixed(Math.min(token.decimals, 4))}` : "";
+      return `${p.label} ${p.percent}%${share}`;
+    })
+    .join(" · ");
+}
+
+function ensureSplitControls() {
+  if (!CONFIG.TIP_SPLITS.length || document.getElementById("tip-split")) return;
+  const row = document.createElement("div");
+  row.id = "tip-split";
+  row.className = "flex items-center justify-between gap-2 text-xs text-white/70";
+  row.innerHTML = `
+    <label class="flex items-center gap-2"><input id="tip-split-on" type="checkbox" class="accent-[#14F195]" /> Split with collaborators</label>
+    <span id="split-breakdown" class="text-white/60 text-right"></span>`;
+  $("#tip-feed").insertAdjacentElement("beforebegin", row);
+
+  const box = document.getElementById("tip-split-on") as HTMLInputElement;
+  box.checked = splitOn();
+  box.onchange = () => {
+    try {
+      localStorage.setItem(SPLIT_KEY, box.checked ? "1" : "0");
+    } catch {}
+    renderSplitBreakdown();
+    void refreshFeeQuote();
+  };
+  $("#custom-tip").addEventListener("input", renderSplitBreakdown);
+  renderSplitBreakdown();
+}
+
+// -------------------- priority fee presets --------------------
+const TIP_UNITS_GUESS = 40_000; // memo + possible ATA creation; the real limit comes from simulation
+
+function formatFee(e: FeeEstimate) {
+  return (e.totalLamports / LAMPORTS_PER_SOL).toFixed(6);
+}
+
+function showFeeEstimate(e: FeeEstimate, exact = false) {
+  const el = document.getElementById("fee-estimate");
+  if (!el) return;
+  el.textContent = exact
+    ? `Network fee ${formatFee(e)} SOL (${FEE_LEVELS[e.level].label}, ${e.units.toLocaleString()} CU)`
+    : `Network fee ≈ ${formatFee(e)} SOL`;
+}
+
+async function refreshFeeQuote() {
+  try {
+    const { owner, atas } = await tipAddresses();
+    const collaborators = activeSplits().map((x) => new PublicKey(x.address));
+    const accounts = selectedToken().mint ? [owner, ...atas, ...collaborators] : [owner, ...collaborators];
+    const quote = await withFailover(
+      (c) => quoteFee(c, accounts, getFeeLevel(), TIP_UNITS_GUESS),
+      "getRecentPrioritizationFees"
+    );
+    showFeeEstimate(quote);
+  } catch (e) {
+    console.warn("[TipJar] fee quote failed:", e);
+    const el = document.getElementById("fee-estimate");
+    if (el) el.textContent = "";
+  }
+}
+
+function ensureFeeControls() {
+  if (document.getElementById("fee-level")) return;
+  const box = document.createElement("div");
+  box.className = "flex items-center justify-between gap-2 text-xs";
+  box.innerHTML = `
+    <div id="fee-level" class="inline-flex rounded-lg border border-white/10 overflow-hidden" role="radiogroup" aria-label="Priority fee">
+      ${(Object.keys(FEE_LEVELS) as FeeLevel[])
+        .map(
+          (l) =>
+            `<button type="button" data-level="${l}" role="radio" class="px-2 py-1 hover:bg-white/10">${FEE_LEVELS[l].label}</button>`
+        )
+        .join("")}
+    </div>
+    <span id="fee-estimate" class="text-white/60"></span>`;
+  $("#tip-feed").insertAdjacentElement("beforebegin", box);
+
+  const paint = () => {
+    const cur = getFeeLevel();
+    box.querySelectorAll<HTMLButtonElement>("[data-level]").forEach((b) => {
+      const on = b.dataset.level === cur;
+      b.classList.toggle("bg-white/15", on);
+      b.setAttribute("aria-checked", String(on));
+    });
+  };
+  box.querySelectorAll<HTMLButtonElement>("[data-level]").forEach((b) => {
+    b.onclick = () => {
+      setFeeLevel(b.dataset.level as FeeLevel);
+      paint();
+      void refreshFeeQuote();
+    };
+  });
+  paint();
+  void refreshFeeQuote();
+}
+
+// -------------------- transaction-request mode --------------------
+const TXREQ_KEY = "stonky:txreq";
+let lastQrAmount = 0;
+
+function useTxRequest(): boolean {
+  if (!CONFIG.TX_REQUEST_URL) return false;
+  try {
+    return localStorage.getItem(TXREQ_KEY) !== "0";
+  } catch {
+    return true;
+  }
+}
+
+// Checkbox inside the QR modal; only shown when an endpoint is configured
+function ensureTxRequestToggle() {
+  if (!CONFIG.TX_REQUEST_URL || document.getElementById("qr-txreq")) return;
+  const row = document.createElement("label");
+  row.className = "flex items-center gap-2 text-xs text-white/70 mt-3";
+  row.innerHTML = `<input id="qr-txreq" type="checkbox" class="accent-[#14F195]" /> Rich tip (memo + tokens built by the server)`;
+  $("#qr-copy").parentElement?.insertAdjacentElement("beforebegin", row);
+  const box = document.getElementById("qr-txreq") as HTMLInputElement;
+  box.checked = useTxRequest();
+  box.onchange = () => {
+    try {
+      localStorage.setItem(TXREQ_KEY, box.checked ? "1" : "0");
+    } catch {}
+    if (lastQrAmount > 0) void openTipQr(lastQrAmount).catch(reportSendError);
+  };
+}
+
+// -------------------- send flow --------------------
+async function openTipQr(amount: number) {
+  const token = selectedToken();
+  const to = await ensureRecipient();
+  const reference = newReference(); // fresh per link so we can spot the payment
+  lastQrAmount = amount;
+  // plain transfer requests can't split; the server builds split-mode transaction requests
+  const splits = useTxRequest() ? activeSplits() : [];
+  const solUrl = useTxRequest()
+    ? buildTransactionRequestUrl(CONFIG.TX_REQUEST_URL, {
+        to: isCustomRecipient() ? to : undefined,
+        amount,
+        token: token.mint ? token.symbol : undefined,
+        ...memoInputs(),
+        split: splits.length ? 1 : undefined,
+        reference,
+        cluster: getCluster(),
+      })
+    : buildSolanaPayUrl(
         to,
         amount,
-        `${CONFIG.OWNER_SOL_DOMAIN || "Tip Jar"}`,
-        `Thanks for the tip (${getCluster()})`
+        isCustomRecipient() ? recipientLabel(to) : `${CONFIG.OWNER_SOL_DOMAIN || "Tip Jar"}`,
+        `Thanks for the tip (${getCluster()})`,
+        { splToken: token.mint ?? undefined, memo: currentMemo(), reference }
       );
-      await openQr(solUrl, amount, to);
+  await openQr(solUrl, amount, to, token.symbol, { recipient: to, amount, token, reference, splits });
+}
+
+// -------------------- send + confirm --------------------
+// Re-signing an expired tip rebuilds it with a fresh blockhash from the same inputs.
+type TipInputs = {
+  token: TipToken;
+  memo: string | null;
+  splits: TipSplit[];
+  recipient?: string; // subscriptions tip their own recipient
+};
+
+/** Resolves true once the tip landed (false: picker closed, expired or failed on-chain). */
+async function sendAndTrack(amount: number, inputs: TipInputs): Promise<boolean> {
+  const { token } = inputs;
+  const wallet = await requireWallet();
+  const from = wallet?.publicKey;
+  if (!from) return false; // picker closed
+
+  const sent: SentTip = await sendTip(from, amount, {
+    ...inputs,
+    onEstimate: (e) => {
+      showFeeEstimate(e, true);
+      emitTxProgress("fee:estimate", { ...e, flow: "tip" });
+    },
+  });
+  const link = explorerTxUrl(sent.sig);
+  showToast(`Tip sent — confirming… (${amount} ${token.symbol})`, "success", link);
+
+  try {
+    await trackConfirmation(sent.sig, {
+      lastValidBlockHeight: sent.lastValidBlockHeight,
+      flow: "tip",
+      onStatus: (s) => {
+        if (s !== "confirmed") return;
+        showToast("Tip confirmed ✓ View on explorer", "success", link);
+        scheduleRefresh(1_500);
+      },
+    });
+  } catch (e) {
+    if (e instanceof TxConfirmError && e.status === "expired") {
+      showToast("Tip expired before it landed.", "error", undefined, {
+        label: "Re-sign",
+        onClick: () => void sendAndTrack(amount, inputs).catch(reportSendError),
+      });
+      return false;
+    } else if (e instanceof TxConfirmError) {
+      showToast("Tip failed on-chain. View on explorer", "error", link);
+      return false;
     } else {
-      window.open("https://phantom.app/", "_blank", "noopener");
+      console.warn("[TipJar] confirmation tracking failed:", e);
     }
-    return;
   }
+  return true;
+}
 
-  // Wallet installed → try to connect & send
-  try {
-    if (!provider.publicKey) {
-      await provider.connect({ onlyIfTrusted: false });
-    }
-    const from = provider.publicKey as PublicKey | undefined;
-    if (!from) throw new Error("connect_failed");
+function isUserRejection(e: any) {
+  return e?.code === 4001 || /reject/i.test(String(e?.message || e || ""));
+}
 
-    await sendTip(from, amount);
-    scheduleRefresh(4_000);
+function reportSendError(e: any) {
+  if (isUserRejection(e) || e instanceof TxPreviewError) return; // user canceled / review explained it
+  const msg = String(e?.message || e || "");
+  console.warn("Send failed:", e);
+  showToast(msg.length > 80 ? "Tip failed." : msg || "Tip failed.", "error");
+}
+
+/** Token, memo and split shares a tip to `recipient` (default: the page recipient) is sent with. */
+async function tipInputs(recipient?: string): Promise<TipInputs> {
+  const own = !recipient || recipient === (await ensureRecipient());
+  return { token: selectedToken(), memo: currentMemo(), splits: own ? activeSplits() : [], recipient };
+}
+
+/**
+ * Sends `amount` of the selected token with the current memo. `recipient` overrides the page
+ * recipient (subscriptions); split mode only applies when tipping the page recipient.
+ * Resolves true once the tip landed.
+ */
+async function handleSend(amount: number, recipient?: string): Promise<boolean> {
+  if (!amount || amount <= 0) return false;
+
+  // No wallet installed on mobile → Solana Pay deep link / QR
+  if (IS_MOBILE && !listWallets().length && !recipient) {
+    await openTipQr(amount).catch(reportSendError);
+    return false;
+  }
+
+  // Otherwise make sure a wallet is connected (opens the picker if needed) & send
+  try {
+    return await sendAndTrack(amount, await tipInputs(recipient));
   } catch (e: any) {
-    const code = e?.code;
-    const msg = String(e?.message || e || "");
-    if (code === 4001 || /reject/i.test(msg)) return; // user canceled
+    if (isUserRejection(e)) return false;
+    if (e instanceof TxPreviewError) return false; // the review modal already explained why
 
-    if (!IS_MOBILE) {
-      console.warn("Send failed on desktop:", e);
-      return;
+    if (!IS_MOBILE || recipient) {
+      reportSendError(e);
+      return false;
     }
 
     // Mobile fallback: Solana Pay + QR
-    try {
-      const to = await ensureRecipient();
-      const solUrl = buildSolanaPayUrl(
-        to,
-        amount,
-        `${CONFIG.OWNER_SOL_DOMAIN || "Tip Jar"}`,
-        `Thanks for the tip (${getCluster()})`
-      );
-      await openQr(solUrl, amount, to);
-    } catch {
-      /* ignore */
-    }
+    await openTipQr(amount).catch(reportSendError);
+    return false;
+  }
+}
+
+// One-click subscription payment: pre-fill the form with the subscription, then the usual send
+async function paySubscription(sub: Subscription): Promise<boolean> {
+  const sel = document.getElementById("tip-token") as HTMLSelectElement | null;
+  if (sel && sel.value !== sub.token) {
+    sel.value = sub.token;
+    sel.dispatchEvent(new Event("change"));
   }
+  if (selectedToken().symbol !== sub.token) {
+    showToast(`${sub.token} isn't available on ${getCluster()}.`, "error");
+    return false;
+  }
+  ($("#custom-tip") as HTMLInputElement).value = String(sub.amount);
+  return handleSend(sub.amount, sub.recipient);
+}
+
+function resetRecipientViews() {
+  stopQrWatch();
+  $("#qr-backdrop").classList.add("hidden"); // its link targets the old recipient/cluster
+  ensureTokenSelect();
+  const label = document.getElementById("custom-tip-label");
+  if (label) label.textContent = `Custom amount (${selectedToken().symbol})`;
+  updateOwnerLabel();
+  renderSplitBreakdown();
+  shownSigs = null;
+  $("#tip-feed").innerHTML = `<li class="text-white/60 text-sm">Loading…</li>`;
+  scheduleRefresh(500);
+  void refreshFeeQuote();
 }
 
 // -------------------- init --------------------
@@ -296,12 +777,30 @@ export function initTipJar() {
 
   // Wire QR modal controls
   wireQrModal();
+  ensureTxRequestToggle();
 
   // Show recipient & cluster
   updateOwnerLabel();
 
-  // Add runtime "Send" button for custom amounts
+  // Add runtime "Send" button for custom amounts + token selector
   ensureSendButton();
+  ensureTokenSelect();
+  ensureMemoFields();
+  ensureSplitControls();
+  ensureFeeControls();
+  initSubscriptions({
+    current: async () => {
+      const to = await ensureRecipient();
+      return {
+        amount: Number(($("#custom-tip") as HTMLInputElement).value),
+        token: selectedToken(),
+        recipient: to,
+        label: isCustomRecipient() ? recipientLabel(to) : CONFIG.OWNER_SOL_DOMAIN || recipientLabel(to),
+      };
+    },
+    pay: paySubscription,
+    tipInputs: async (sub) => tipInputs(sub.recipient), // prepaid tips: same memo + splits as pay()
+  });
 
   // Hitting Enter in the custom amount field sends via wallet (desktop), with mobile fallback
   const customInput = $("#custom-tip") as HTMLInputElement;
@@ -313,54 +812,23 @@ export function initTipJar() {
     }
   });
 
-  // Connect wallet button
+  // Connect wallet button → wallet picker (Wallet Standard + injected providers)
   const connectBtn = $("#connect-wallet") as HTMLButtonElement;
   connectBtn.onclick = async () => {
-    const provider = getProvider();
-    if (!provider) {
-      if (IS_MOBILE) {
-        const to = await ensureRecipient();
-        const amount = Number(($("#custom-tip") as HTMLInputElement).value) || 0.05;
-        const solUrl = buildSolanaPayUrl(
-          to,
-          amount,
-          `${CONFIG.OWNER_SOL_DOMAIN || "Tip Jar"}`,
-          `Thanks for the tip (${getCluster()})`
-        );
-        await openQr(solUrl, amount, to);
-      } else {
-        window.open("https://phantom.app/", "_blank", "noopener");
-      }
+    if (IS_MOBILE && !listWallets().length) {
+      const amount = Number(($("#custom-tip") as HTMLInputElement).value) || 0.05;
+      await openTipQr(amount).catch(reportSendError);
       return;
     }
-    try {
-      const res = await provider.connect({ onlyIfTrusted: false });
-      const pk =
-        res?.publicKey?.toBase58?.() ?? provider.publicKey?.toBase58?.();
-      setConnectButton(pk);
-      scheduleRefresh(2_000);
-    } catch {
-      setConnectButton(undefined);
-    }
+    await openWalletPicker();
   };
 
   // Wallet events
-  try {
-    const provider = getProvider();
-    provider?.on?.("connect", () => {
-      const pk = provider.publicKey?.toBase58?.();
-      setConnectButton(pk);
-      scheduleRefresh(2_000);
-    });
-    provider?.on?.("disconnect", () => {
-      setConnectButton(undefined);
-    });
-    provider?.on?.("accountChanged", (pk: PublicKey | null) => {
-      setConnectButton(pk ? (pk as any).toBase58() : undefined);
-    });
-  } catch {
-    /* noop */
-  }
+  onWalletChange((w) => {
+    const pk = w?.publicKey?.toBase58();
+    setConnectButton(pk);
+    if (pk) scheduleRefresh(2_000);
+  });
 
   // Tip preset buttons (always send via wallet if available; mobile fallback handled in handleSend)
   document.querySelectorAll<HTMLButtonElement>(".tip-btn").forEach((btn) => {
@@ -374,16 +842,21 @@ export function initTipJar() {
   $("#qr-tip").addEventListener("click", async () => {
     const input = $("#custom-tip") as HTMLInputElement;
     const amount = Number(input.value) || 0.05;
-    const to = await ensureRecipient();
-    const solUrl = buildSolanaPayUrl(
-      to,
-      amount,
-      `${CONFIG.OWNER_SOL_DOMAIN || "Tip Jar"}`,
-      `Thanks for the tip (${getCluster()})`
-    );
-    await openQr(solUrl, amount, to);
+    await openTipQr(amount).catch(reportSendError);
   });
 
   // Initial gentle load
   scheduleRefresh(3_000);
+
+  // Cluster switch / ?to= route change: new recipient, tokens and feed
+  // (the live feed re-subscribes on its own)
+  window.addEventListener("stonky:clusterChanged", resetRecipientViews);
+  window.addEventListener("stonky:recipientChanged", resetRecipientViews);
+
+  // Live updates: a websocket nudge refreshes within seconds (cached, so only new txs are fetched)
+  if (CONFIG.LIVE_FEED && typeof WebSocket !== "undefined") {
+    startLiveTips(() => scheduleRefresh(1_500), setFeedStatus);
+  } else {
+    setFeedStatus("polling");
+  }
 }
@@ -0,0 +1,150 @@
+// src/components/tiptx.ts
+// Tip transaction building shared by the browser (sendTip in solana.ts) and the
+// Solana Pay transaction-request function (netlify/functions/tip-tx.ts).
+// No DOM, no wallet, no RPC pool: callers hand in a Connection-like object.
+
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import {
+  SOL_TOKEN,
+  createAtaIdempotentIx,
+  findAta,
+  toBaseUnits,
+  transferCheckedIx,
+} from "./tokens";
+import type { TipToken } from "./tokens";
+
+export const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+// -------------------- Memo instruction --------------------
+// Tip memo text: formatTipMemo() in memoproto.ts.
+export function memoIx(text: string): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [],
+    data: Buffer.from(new TextEncoder().encode(text)),
+  });
+}
+
+// -------------------- Tip transaction --------------------
+export type TipRpc = Pick<
+  Connection,
+  "getAccountInfo" | "getMultipleAccountsInfo" | "getLatestBlockhash"
+>;
+
+// A collaborator's share of every tip (VITE_TIP_SPLITS); the main recipient keeps the rest.
+export type TipSplit = {
+  label: string;
+  address: string; // base58
+  percent: number;
+};
+
+export type TipShare = {
+  label: string;
+  recipient: PublicKey;
+  raw: bigint; // base units of the tip token
+};
+
+export type TipRequest = {
+  payer: PublicKey;
+  recipient: PublicKey;
+  amount: number; // UI units of `token`
+  token?: TipToken; // defaults to SOL
+  memo?: string | null; // see formatTipMemo() in memoproto.ts
+  reference?: string; // Solana Pay reference, added read-only to the first transfer ix
+  splits?: TipSplit[]; // split mode: one transfer per share, same tx
+};
+
+/**
+ * Divides the tip by percentage. Collaborators are rounded down; the main recipient
+ * keeps the remainder (dust included) and comes first. Zero shares are dropped.
+ */
+export function tipShares(req: Pick<TipRequest, "recipient" | "amount" | "token" | "splits">): TipShare[] {
+  const token = req.token ?? SOL_TOKEN;
+  const raw = token.mint
+    ? toBaseUnits(req.amount, token.decimals)
+    : BigInt(Math.round(Number(req.amount) * LAMPORTS_PER_SOL));
+  const splits = req.splits ?? [];
+  if (splits.reduce((sum, s) => sum + s.percent, 0) > 100) {
+    throw new Error("Tip splits add up to more than 100%.");
+  }
+  const shares = splits.map((s) => ({
+    label: s.label,
+    recipient: new PublicKey(s.address),
+    raw: (raw * BigInt(Math.round(s.percent * 100))) / 10_000n, // basis points
+  }));
+  const rest = raw - shares.reduce((sum, s) => sum + s.raw, 0n);
+  return [{ label: "Recipient", recipient: req.recipient, raw: rest }, ...shares].filter((s) => s.raw > 0n);
+}
+
+// SOL → SystemProgram.transfer; SPL → TransferChecked between ATAs
+// (missing recipient ATAs are created in the same tx). One transfer per share in split mode.
+export async function buildTipInstructions(
+  rpc: TipRpc,
+  req: TipRequest
+): Promise<TransactionInstruction[]> {
+  const { payer: from } = req;
+  const token = req.token ?? SOL_TOKEN;
+  const shares = tipShares(req);
+  if (!shares.length) throw new Error("Tip amount is too small.");
+  const ixs: TransactionInstruction[] = [];
+  let transfers: TransactionInstruction[];
+
+  if (!token.mint) {
+    transfers = shares.map((s) =>
+      SystemProgram.transfer({ fromPubkey: from, toPubkey: s.recipient, lamports: s.raw })
+    );
+  } else {
+    const mint = new PublicKey(token.mint);
+    const mintInfo = await rpc.getAccountInfo(mint);
+    if (!mintInfo) throw new Error(`${token.symbol} mint not found on this cluster.`);
+    const tokenProgram = mintInfo.owner; // classic Token or Token-2022
+
+    const source = findAta(from, mint, tokenProgram);
+    const dests = shares.map((s) => findAta(s.recipient, mint, tokenProgram));
+    const [srcInfo, ...destInfos] = await rpc.getMultipleAccountsInfo([source, ...dests]);
+    if (!srcInfo) throw new Error(`No ${token.symbol} balance in this wallet.`);
+
+    const created = new Set<string>();
+    dests.forEach((dest, i) => {
+      if (destInfos[i] || created.has(dest.toBase58())) return;
+      created.add(dest.toBase58());
+      ixs.push(createAtaIdempotentIx(from, dest, shares[i].recipient, mint, tokenProgram));
+    });
+    transfers = shares.map((s, i) =>
+      transferCheckedIx(source, mint, dests[i], from, s.raw, token.decimals, tokenProgram)
+    );
+  }
+
+  if (req.reference) {
+    transfers[0].keys.push({ pubkey: new PublicKey(req.reference), isSigner: false, isWritable: false });
+  }
+  ixs.push(...transfers);
+  if (req.memo) ixs.push(memoIx(req.memo));
+  return ixs;
+}
+
+/** Unsigned v0 tip transaction, ready for a wallet (or a Solana Pay POST response). */
+export async function buildTipTransaction(
+  rpc: TipRpc,
+  req: TipRequest
+): Promise<{ tx: VersionedTransaction; blockhash: string; lastValidBlockHeight: number }> {
+  const { blockhash, lastValidBlockHeight } = await rpc.getLatestBlockhash({
+    commitment: "finalized",
+  } as any);
+  const instructions = await buildTipInstructions(rpc, req);
+  const msg = new TransactionMessage({
+    payerKey: req.payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message();
+  return { tx: new VersionedTransaction(msg), blockhash, lastValidBlockHeight };
+}
@@ -1,9 +1,33 @@
-export const showToast = (msg: string, type: "success" | "error", link?: string) => {
+export type ToastAction = { label: string; onClick: () => void };
+
+export const showToast = (msg: string, type: "success" | "error", link?: string, action?: ToastAction) => {
   const el = document.createElement("div");
   el.className = `fixed bottom-4 left-4 px-4 py-2 rounded-lg shadow-lg text-sm font-medium ${
     type === "success" ? "bg-green-500" : "bg-red-500"
   } text-white z-[1000]`;
-  el.innerHTML = link ? `<a href="${link}" target="_blank" class="underline">${msg}</a>` : msg;
+  // Text only: messages can carry route / memo text from the URL or the chain
+  if (link) {
+    const a = document.createElement("a");
+    a.href = link;
+    a.target = "_blank";
+    a.rel = "noopener noreferrer";
+    a.className = "underline";
+    a.textContent = msg;
+    el.appendChild(a);
+  } else {
+    el.textContent = msg;
+  }
+  if (action) {
+    const btn = document.createElement("button");
+    btn.type = "button";
+    btn.className = "ml-3 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30";
+    btn.textContent = action.label;
+    btn.onclick = () => {
+      el.remove();
+      action.onClick();
+    };
+    el.appendChild(btn);
+  }
   document.body.appendChild(el);
-  setTimeout(() => el.remove(), 3200);
+  setTimeout(() => el.remove(), action ? 15_000 : 3200); // give people time to hit the button
 };
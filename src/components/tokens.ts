@@ -0,0 +1,120 @@
+// src/components/tokens.ts
+// Tip tokens (SOL + SPL mints) and the minimal SPL instructions we need:
+// associated-token-account derivation, idempotent ATA creation and TransferChecked.
+// Hand-rolled (like the Memo ix in discover.ts) to keep @solana/spl-token out of the bundle.
+
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { CONFIG } from "./config";
+import type { Cluster } from "./config";
+
+export const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
+export const TOKEN_2022_PROGRAM_ID = new PublicKey("TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb");
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+
+export type TipToken = {
+  symbol: string;
+  mint: string | null; // null → native SOL
+  decimals: number;
+};
+
+export const SOL_TOKEN: TipToken = { symbol: "SOL", mint: null, decimals: 9 };
+
+const BUILT_IN: Record<Cluster, TipToken[]> = {
+  mainnet: [
+    SOL_TOKEN,
+    { symbol: "USDC", mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6 },
+    { symbol: "USDT", mint: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", decimals: 6 },
+  ],
+  devnet: [
+    SOL_TOKEN,
+    { symbol: "USDC", mint: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", decimals: 6 },
+  ],
+};
+
+/** Built-in tokens for the cluster plus VITE_TIP_TOKENS (config wins on symbol clashes). */
+export function tipTokens(cluster: Cluster): TipToken[] {
+  const extra: TipToken[] = CONFIG.TIP_TOKENS.map((t) => ({ ...t }));
+  const taken = new Set(extra.map((t) => t.symbol.toUpperCase()));
+  return [...BUILT_IN[cluster].filter((t) => !taken.has(t.symbol.toUpperCase())), ...extra];
+}
+
+export function findTipToken(cluster: Cluster, symbolOrMint: string): TipToken | undefined {
+  const k = symbolOrMint.toUpperCase();
+  return tipTokens(cluster).find((t) => t.symbol.toUpperCase() === k || t.mint === symbolOrMint);
+}
+
+// -------------------- amounts --------------------
+/** UI amount → integer base units, without float drift (0.1 USDC → 100000n). */
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  const [whole, frac = ""] = Number(amount).toFixed(decimals).split(".");
+  return BigInt(whole + frac.padEnd(decimals, "0"));
+}
+
+export function formatUnits(raw: bigint, decimals: number, maxFrac = 4): string {
+  const neg = raw < 0n;
+  const s = (neg ? -raw : raw).toString().padStart(decimals + 1, "0");
+  const whole = s.slice(0, s.length - decimals) || "0";
+  const frac = s.slice(s.length - decimals).slice(0, maxFrac).replace(/0+$/, "");
+  return `${neg ? "-" : ""}${whole}${frac ? "." + frac : ""}`;
+}
+
+// -------------------- instructions --------------------
+export function findAta(
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+}
+
+/** CreateIdempotent (ATA program ix #1): no-op if the account already exists. */
+export function createAtaIdempotentIx(
+  payer: PublicKey,
+  ata: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: ata, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgram, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  });
+}
+
+/** TransferChecked (token ix #12): amount u64 LE + decimals u8. */
+export function transferCheckedIx(
+  source: PublicKey,
+  mint: PublicKey,
+  dest: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  decimals: number,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  const data = Buffer.alloc(10);
+  data.writeUInt8(12, 0);
+  data.writeBigUInt64LE(amount as any, 1);
+  data.writeUInt8(decimals, 9);
+  return new TransactionInstruction({
+    programId: tokenProgram,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: dest, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
@@ -0,0 +1,106 @@
+// src/components/txconfirm.ts
+// Confirmation tracker for transactions we sent.
+// Polls getSignatureStatuses through the shared pool until the tx is finalized,
+// fails, or its blockhash expires (block height > lastValidBlockHeight with no status).
+// Every step is broadcast as `stonky:txProgress` ({ phase, ...data }, same shape as Discover).
+
+import type { TransactionError } from "@solana/web3.js";
+import { withFailover } from "./rpc";
+
+export type TxStatus = "processed" | "confirmed" | "finalized" | "expired" | "failed";
+
+export type TrackOptions = {
+  lastValidBlockHeight: number;
+  flow?: string; // tag for listeners ("tip", "publish", …)
+  onStatus?: (s: TxStatus) => void;
+  signal?: AbortSignal;
+  intervalMs?: number;
+};
+
+export class TxConfirmError extends Error {
+  status: "expired" | "failed";
+  sig: string;
+  txError?: TransactionError;
+  constructor(status: TxConfirmError["status"], sig: string, message: string, txError?: TransactionError) {
+    super(message);
+    this.name = "TxConfirmError";
+    this.status = status;
+    this.sig = sig;
+    this.txError = txError;
+  }
+}
+
+const RANK: Record<string, number> = { processed: 1, confirmed: 2, finalized: 3 };
+const MAX_TRACK_MS = 3 * 60_000; // blockhash lifetime is ~60-90s; this is a hard stop
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export function emitTxProgress(phase: string, data?: Record<string, any>) {
+  const detail = { phase, ...(data || {}) };
+  window.dispatchEvent(new CustomEvent("stonky:txProgress", { detail }));
+}
+
+/**
+ * Resolves with "finalized"; rejects with TxConfirmError("failed" | "expired").
+ * onStatus fires once per new stage, so callers can react at "confirmed".
+ */
+export async function trackConfirmation(sig: string, opts: TrackOptions): Promise<TxStatus> {
+  const { lastValidBlockHeight, flow = "tx", onStatus, signal, intervalMs = 1_500 } = opts;
+  const started = Date.now();
+  let reached = 0;
+  let pastExpiry = 0; // consecutive polls past lastValidBlockHeight with no status
+
+  const step = (s: TxStatus, extra?: Record<string, any>) => {
+    emitTxProgress(`confirm:${s}`, { sig, flow, ...extra });
+    try {
+      onStatus?.(s);
+    } catch (e) {
+      console.warn("[Confirm] status listener failed:", e);
+    }
+  };
+
+  emitTxProgress("confirm:start", { sig, flow, lastValidBlockHeight });
+
+  while (!signal?.aborted && Date.now() - started < MAX_TRACK_MS) {
+    try {
+      const [status, height] = await withFailover(
+        (c) =>
+          Promise.all([
+            c.getSignatureStatuses([sig]).then((r) => r.value[0]),
+            reached ? Promise.resolve(0) : c.getBlockHeight("confirmed"),
+          ]),
+        "confirmTx",
+        1
+      );
+
+      if (status?.err) {
+        step("failed", { err: status.err });
+        throw new TxConfirmError("failed", sig, "Transaction failed on-chain.", status.err);
+      }
+
+      const rank = RANK[status?.confirmationStatus || ""] || 0;
+      for (const s of ["processed", "confirmed", "finalized"] as const) {
+        if (RANK[s] > reached && RANK[s] <= rank) step(s);
+      }
+      reached = Math.max(reached, rank);
+      if (reached === RANK.finalized) return "finalized";
+
+      // Not seen at all and the blockhash can no longer land → expired
+      // (two polls in a row, so a status that lags the block height doesn't count as expiry)
+      pastExpiry = !reached && height > lastValidBlockHeight ? pastExpiry + 1 : 0;
+      if (pastExpiry >= 2) {
+        step("expired", { height });
+        throw new TxConfirmError("expired", sig, "Transaction expired before it landed.");
+      }
+    } catch (e) {
+      if (e instanceof TxConfirmError) throw e;
+      console.warn("[Confirm] poll failed:", e);
+    }
+    await sleep(intervalMs);
+  }
+
+  // Watchdog / abort: report what we know
+  if (reached >= RANK.confirmed) return reached === RANK.finalized ? "finalized" : "confirmed";
+  step("expired", { reason: signal?.aborted ? "aborted" : "timeout" });
+  throw new TxConfirmError("expired", sig, "Could not confirm the transaction in time.");
+}
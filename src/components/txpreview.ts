@@ -0,0 +1,242 @@
+// src/components/txpreview.ts
+// Pre-sign review: simulate the exact transaction the wallet will see, show the balance
+// changes of the accounts people care about (payer, creator, registry, owner) and block
+// transactions that would obviously fail (insufficient funds, rent-exempt violations).
+//
+// reviewTransaction() resolves when the user clicks "Sign in wallet" and rejects with
+// TxPreviewError otherwise ("cancelled" carries code 4001 so existing "user rejected"
+// handling treats it like a wallet rejection).
+
+import { LAMPORTS_PER_SOL, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import type { Connection, SimulatedTransactionResponse } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { closeModal, openModal } from "./modal";
+import { formatUnits } from "./tokens";
+import type { FeeEstimate } from "./fees";
+
+export type WatchedAccount = {
+  label: string; // "You", "Creator", "Registry", …
+  address: PublicKey;
+  // SPL token account → show the token delta instead of lamports
+  token?: { symbol: string; decimals: number };
+};
+
+export type BalanceChange = {
+  label: string;
+  address: string;
+  symbol: string;
+  decimals: number;
+  delta: bigint; // base units (lamports for SOL)
+};
+
+export type PreviewResult = {
+  ok: boolean;
+  changes: BalanceChange[];
+  reason?: string; // human readable, set when !ok
+  logs: string[];
+  unitsConsumed?: number;
+};
+
+export class TxPreviewError extends Error {
+  code: number | "blocked";
+  constructor(code: TxPreviewError["code"], message: string) {
+    super(message);
+    this.name = "TxPreviewError";
+    this.code = code;
+  }
+}
+
+const PREVIEW_ID = "tx-preview-backdrop";
+const RENT_EXEMPT_MIN_SOL = 0.00089088; // 0-byte system account
+
+// -------------------- simulation --------------------
+function asVersioned(tx: Transaction | VersionedTransaction): VersionedTransaction {
+  return tx instanceof VersionedTransaction ? tx : new VersionedTransaction(tx.compileMessage());
+}
+
+// Same address watched twice (registry == owner by default) → one row, joined labels
+function mergeWatched(list: WatchedAccount[]): WatchedAccount[] {
+  const out = new Map<string, WatchedAccount>();
+  for (const w of list) {
+    const k = w.address.toBase58();
+    const prev = out.get(k);
+    out.set(k, prev ? { ...prev, label: `${prev.label} / ${w.label}` } : w);
+  }
+  return [...out.values()];
+}
+
+function tokenAmount(data?: Buffer | null): bigint {
+  // SPL token account layout: mint(32) owner(32) amount(u64 LE)
+  return data && data.length >= 72 ? data.readBigUInt64LE(64) : 0n;
+}
+
+function accountLabel(i: number, keys: string[], watched: WatchedAccount[]) {
+  const k = keys[i];
+  return watched.find((w) => w.address.toBase58() === k)?.label || (k ? `${k.slice(0, 4)}…${k.slice(-4)}` : "an account");
+}
+
+/** Map simulation errors + logs to something a person can act on. */
+export function explainFailure(sim: SimulatedTransactionResponse, keys: string[], watched: WatchedAccount[]): string {
+  const err: any = sim.err;
+  const logs = (sim.logs || []).join("\n").toLowerCase();
+  const tokenSymbol = watched.find((w) => w.token)?.token?.symbol || "tokens";
+
+  if (err === "InsufficientFundsForFee" || err === "AccountNotFound") {
+    return "Not enough SOL to pay the network fee.";
+  }
+  if (err?.InsufficientFundsForRent) {
+    const who = accountLabel(err.InsufficientFundsForRent.account_index, keys, watched);
+    return `${who} would end up below the rent-exempt minimum (${RENT_EXEMPT_MIN_SOL} SOL). Send a bit more, or keep a little SOL in the wallet.`;
+  }
+  if (logs.includes("insufficient lamports")) return "Insufficient SOL balance for this amount plus fees.";
+  if (logs.includes("error: insufficient funds")) return `Not enough ${tokenSymbol} in this wallet.`;
+  if (logs.includes("account not associated with this mint") || logs.includes("invalid account data")) {
+    return "Token account mismatch — refresh and try again.";
+  }
+  if (err === "BlockhashNotFound") return "The transaction expired while building. Try again.";
+  return `Simulation failed: ${typeof err === "string" ? err : JSON.stringify(err)}`;
+}
+
+export async function simulatePreview(
+  conn: Connection,
+  tx: Transaction | VersionedTransaction,
+  watch: WatchedAccount[]
+): Promise<PreviewResult> {
+  const vtx = asVersioned(tx);
+  const watched = mergeWatched(watch);
+  const addresses = watched.map((w) => w.address);
+  const keys = vtx.message.staticAccountKeys.map((k) => k.toBase58());
+
+  const [pre, sim] = await Promise.all([
+    conn.getMultipleAccountsInfo(addresses, "confirmed"),
+    conn.simulateTransaction(vtx, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "confirmed",
+      accounts: { encoding: "base64", addresses: addresses.map((a) => a.toBase58()) },
+    }),
+  ]);
+
+  const post = sim.value.accounts || [];
+  const changes: BalanceChange[] = watched.map((w, i) => {
+    const before = pre[i];
+    const after = post[i];
+    if (w.token) {
+      const afterData = after?.data?.[0] ? Buffer.from(after.data[0], "base64") : null;
+      return {
+        label: w.label,
+        address: w.address.toBase58(),
+        symbol: w.token.symbol,
+        decimals: w.token.decimals,
+        delta: tokenAmount(afterData) - tokenAmount(before?.data as Buffer | undefined),
+      };
+    }
+    return {
+      label: w.label,
+      address: w.address.toBase58(),
+      symbol: "SOL",
+      decimals: 9,
+      delta: BigInt(after?.lamports ?? 0) - BigInt(before?.lamports ?? 0),
+    };
+  });
+
+  return {
+    ok: !sim.value.err,
+    changes,
+    reason: sim.value.err ? explainFailure(sim.value, keys, watched) : undefined,
+    logs: sim.value.logs || [],
+    unitsConsumed: sim.value.unitsConsumed,
+  };
+}
+
+// -------------------- modal --------------------
+function escapeHtml(s?: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
+function ensurePreview(): HTMLElement {
+  let el = document.getElementById(PREVIEW_ID);
+  if (el) return el;
+  el = document.createElement("div");
+  el.id = PREVIEW_ID;
+  el.className = "hidden fixed inset-0 z-50 bg-black/60 p-4";
+  el.innerHTML = `
+    <div class="glass max-w-md mx-auto mt-20 rounded-2xl p-5 relative">
+      <button id="tx-preview-close" class="absolute right-3 top-3 text-white/70 hover:text-white focus-glow">✕</button>
+      <h3 id="tx-preview-title" class="text-lg font-semibold mb-3">Review transaction</h3>
+      <div id="tx-preview-body" class="grid gap-2 text-sm"></div>
+      <div class="flex justify-end gap-2 mt-4">
+        <button id="tx-preview-cancel" class="px-3 py-2 rounded-lg border border-white/15 bg-white/10 text-sm hover:bg-white/15">Cancel</button>
+        <button id="tx-preview-sign" class="btn-grad px-3 py-2 rounded-lg font-semibold text-sm disabled:opacity-40">Sign in wallet</button>
+      </div>
+    </div>`;
+  document.body.appendChild(el);
+  return el;
+}
+
+function renderChange(c: BalanceChange) {
+  const cls = c.delta > 0n ? "text-[#14F195]" : c.delta < 0n ? "text-red-300" : "text-white/50";
+  const sign = c.delta > 0n ? "+" : "";
+  return `<div class="flex items-center justify-between rounded-lg border border-white/10 bg-white/5 px-3 py-2">
+      <span>${escapeHtml(c.label)} <span class="font-mono text-xs text-white/50">${c.address.slice(0, 4)}…${c.address.slice(-4)}</span></span>
+      <span class="font-mono ${cls}">${sign}${formatUnits(c.delta, c.decimals, c.decimals)} ${escapeHtml(c.symbol)}</span>
+    </div>`;
+}
+
+/**
+ * Simulates `tx`, shows the review modal and waits for the user.
+ * Resolves → go ahead and sign; rejects with TxPreviewError (cancelled / blocked).
+ */
+export async function reviewTransaction(
+  conn: Connection,
+  tx: Transaction | VersionedTransaction,
+  opts: { title: string; watch: WatchedAccount[]; estimate?: FeeEstimate }
+): Promise<void> {
+  const root = ensurePreview();
+  const body = document.getElementById("tx-preview-body")!;
+  const sign = document.getElementById("tx-preview-sign") as HTMLButtonElement;
+  const cancel = document.getElementById("tx-preview-cancel") as HTMLButtonElement;
+  const close = document.getElementById("tx-preview-close") as HTMLButtonElement;
+  document.getElementById("tx-preview-title")!.textContent = opts.title;
+
+  body.innerHTML = `<div class="text-white/60">Simulating…</div>`;
+  sign.disabled = true;
+  openModal(PREVIEW_ID);
+
+  let result: PreviewResult | null = null;
+  try {
+    result = await simulatePreview(conn, tx, opts.watch);
+  } catch (e) {
+    // RPC hiccup: let the wallet's own preflight decide, but say so
+    console.warn("[Preview] simulation unavailable:", e);
+  }
+
+  const fee = opts.estimate
+    ? `<div class="text-xs text-white/60">Network fee ≈ ${(opts.estimate.totalLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL (${opts.estimate.units.toLocaleString()} CU)</div>`
+    : "";
+  body.innerHTML = !result
+    ? `<div class="text-yellow-300 text-xs">Couldn't simulate right now — your wallet will still check the transaction.</div>${fee}`
+    : [
+        ...result.changes.map(renderChange),
+        fee,
+        result.ok
+          ? ""
+          : `<div class="rounded-lg border border-red-400/40 bg-red-500/10 px-3 py-2 text-red-200">${escapeHtml(result.reason)}</div>`,
+      ].join("");
+  sign.disabled = !!result && !result.ok;
+
+  return new Promise((resolve, reject) => {
+    const done = (ok: boolean) => {
+      closeModal(PREVIEW_ID);
+      sign.onclick = cancel.onclick = close.onclick = root.onclick = null;
+      if (ok) return resolve();
+      if (result && !result.ok) return reject(new TxPreviewError("blocked", result.reason || "Transaction would fail."));
+      reject(new TxPreviewError(4001, "User rejected the transaction in preview."));
+    };
+    sign.onclick = () => done(true);
+    cancel.onclick = close.onclick = () => done(false);
+    root.onclick = (e) => {
+      if (e.target === root) done(false);
+    };
+  });
+}
@@ -0,0 +1,458 @@
+// src/components/wallet.ts
+//
+// One connected-wallet object for the whole app:
+// - Wallet Standard discovery (Phantom, Solflare, Backpack, … register themselves)
+// - Legacy injected providers (window.phantom.solana, window.solflare, window.backpack, window.solana)
+// - Picker modal behind #connect-wallet (built at runtime, uses modal.ts helpers)
+// - Last-used wallet is remembered and silently reconnected when the wallet allows it
+//
+// Every module (tip send, publish, like, Jupiter pass-through, watermark binding)
+// talks to getWallet() instead of window.solana.
+
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import type { SendOptions } from "@solana/web3.js";
+import bs58 from "bs58";
+import { getCluster } from "./solana";
+import { closeModal, openModal } from "./modal";
+import { showToast } from "./toast";
+
+export type WalletKind = "standard" | "injected";
+
+export interface StonkyWallet {
+  id: string; // stable key used for persistence, e.g. "std:Phantom" or "injected:solflare"
+  name: string;
+  icon?: string;
+  kind: WalletKind;
+  readonly publicKey: PublicKey | null;
+  connect(silent?: boolean): Promise<PublicKey>;
+  disconnect(): Promise<void>;
+  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]>;
+  signAndSendTransaction(
+    tx: Transaction | VersionedTransaction,
+    conn: Connection,
+    opts?: SendOptions
+  ): Promise<string>;
+  raw: any; // underlying provider / standard wallet (Jupiter pass-through)
+}
+
+type Listener = (w: StonkyWallet | null) => void;
+
+const STORE_KEY = "stonky:wallet";
+const PICKER_ID = "wallet-picker-backdrop";
+
+const wallets = new Map<string, StonkyWallet>();
+const listeners = new Set<Listener>();
+let active: StonkyWallet | null = null;
+let discovered = false;
+
+// -------------------- helpers --------------------
+function toPk(v: any): PublicKey | null {
+  if (!v) return null;
+  try {
+    return v instanceof PublicKey ? v : new PublicKey(v.toBase58 ? v.toBase58() : v);
+  } catch {
+    return null;
+  }
+}
+
+function serializeTx(tx: Transaction | VersionedTransaction): Uint8Array {
+  return tx instanceof VersionedTransaction
+    ? tx.serialize()
+    : tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+}
+
+function chainId() {
+  return getCluster() === "devnet" ? "solana:devnet" : "solana:mainnet";
+}
+
+function notify() {
+  for (const fn of listeners) {
+    try {
+      fn(active);
+    } catch (e) {
+      console.warn("[Wallet] listener failed:", e);
+    }
+  }
+}
+
+// Only forward events coming from the wallet the user actually picked
+function emitFrom(w: StonkyWallet) {
+  return () => {
+    if (active?.id !== w.id) return;
+    if (!w.publicKey) active = null; // wallet-side disconnect / unconnected account
+    notify();
+  };
+}
+
+// -------------------- Wallet Standard --------------------
+function standardAdapter(sw: any): StonkyWallet {
+  let account: any = sw.accounts?.[0] ?? null;
+  const feat = (k: string) => sw.features?.[k];
+
+  const w: StonkyWallet = {
+    id: `std:${sw.name}`,
+    name: String(sw.name),
+    icon: sw.icon,
+    kind: "standard",
+    raw: sw,
+    get publicKey() {
+      return toPk(account?.address);
+    },
+    async connect(silent = false) {
+      const res = await feat("standard:connect").connect(silent ? { silent: true } : undefined);
+      account = res?.accounts?.[0] ?? sw.accounts?.[0] ?? null;
+      const pk = toPk(account?.address);
+      if (!pk) throw new Error("connect_failed");
+      return pk;
+    },
+    async disconnect() {
+      await feat("standard:disconnect")?.disconnect?.();
+      account = null;
+    },
+    async signTransaction(tx) {
+      const f = feat("solana:signTransaction");
+      if (!f) throw new Error(`${sw.name} cannot sign transactions`);
+      const [out] = await f.signTransaction({
+        account,
+        transaction: serializeTx(tx),
+        chain: chainId(),
+      });
+      const bytes = out.signedTransaction as Uint8Array;
+      return (tx instanceof VersionedTransaction
+        ? VersionedTransaction.deserialize(bytes)
+        : Transaction.from(bytes)) as typeof tx;
+    },
+    async signAllTransactions(txs) {
+      const f = feat("solana:signTransaction");
+      if (!f) throw new Error(`${sw.name} cannot sign transactions`);
+      // one prompt: the feature takes any number of inputs
+      const outs = await f.signTransaction(
+        ...txs.map((tx) => ({ account, transaction: serializeTx(tx), chain: chainId() }))
+      );
+      return outs.map((out: any, i: number) => {
+        const bytes = out.signedTransaction as Uint8Array;
+        return (txs[i] instanceof VersionedTransaction
+          ? VersionedTransaction.deserialize(bytes)
+          : Transaction.from(bytes)) as (typeof txs)[number];
+      });
+    },
+    async signAndSendTransaction(tx, conn, opts) {
+      const f = feat("solana:signAndSendTransaction");
+      if (f) {
+        const [out] = await f.signAndSendTransaction({
+          account,
+          transaction: serializeTx(tx),
+          chain: chainId(),
+          options: opts,
+        });
+        return bs58.encode(out.signature);
+      }
+      const signed = await w.signTransaction(tx);
+      return conn.sendRawTransaction(serializeTx(signed), opts);
+    },
+  };
+
+  feat("standard:events")?.on?.("change", (props: any) => {
+    if (!props?.accounts) return;
+    account = props.accounts[0] ?? null;
+    emitFrom(w)();
+  });
+
+  return w;
+}
+
+function isSolanaStandardWallet(sw: any) {
+  return (
+    !!sw?.features?.["standard:connect"] &&
+    Array.isArray(sw.chains) &&
+    sw.chains.some((c: string) => c.startsWith("solana:"))
+  );
+}
+
+function registerStandard(...list: any[]) {
+  for (const sw of list) {
+    if (!isSolanaStandardWallet(sw)) continue;
+    const w = standardAdapter(sw);
+    wallets.set(w.id, w);
+    // Standard registration wins over the legacy provider of the same wallet
+    for (const [id, other] of wallets) {
+      if (other.kind === "injected" && other.name.toLowerCase() === w.name.toLowerCase()) {
+        wallets.delete(id);
+      }
+    }
+  }
+  return () => {};
+}
+
+function discoverStandard() {
+  const api = { register: registerStandard };
+  window.addEventListener("wallet-standard:register-wallet", (e: any) => {
+    try {
+      e?.detail?.(api);
+    } catch (err) {
+      console.warn("[Wallet] standard register failed:", err);
+    }
+  });
+  window.dispatchEvent(new CustomEvent("wallet-standard:app-ready", { detail: api }));
+}
+
+// -------------------- Legacy injected providers --------------------
+function injectedAdapter(key: string, name: string, prov: any): StonkyWallet {
+  const w: StonkyWallet = {
+    id: `injected:${key}`,
+    name,
+    icon: prov.icon,
+    kind: "injected",
+    raw: prov,
+    get publicKey() {
+      return toPk(prov.publicKey);
+    },
+    async connect(silent = false) {
+      if (silent) {
+        // Only Phantom-style providers support a trusted-only connect
+        if (!prov.isPhantom && !prov.isBackpack) {
+          const pk = prov.isConnected ? toPk(prov.publicKey) : null;
+          if (!pk) throw new Error("not_trusted");
+          return pk;
+        }
+        await prov.connect({ onlyIfTrusted: true });
+      } else {
+        await prov.connect();
+      }
+      const pk = toPk(prov.publicKey);
+      if (!pk) throw new Error("connect_failed");
+      return pk;
+    },
+    async disconnect() {
+      await prov.disconnect?.();
+    },
+    async signTransaction(tx) {
+      return prov.signTransaction(tx);
+    },
+    async signAllTransactions(txs) {
+      if (typeof prov.signAllTransactions === "function") return prov.signAllTransactions(txs);
+      const out: typeof txs = [];
+      for (const tx of txs) out.push(await prov.signTransaction(tx));
+      return out;
+    },
+    async signAndSendTransaction(tx, conn, opts) {
+      if (typeof prov.signAndSendTransaction === "function") {
+        const res = await prov.signAndSendTransaction(tx, opts);
+        return String(res?.signature ?? res);
+      }
+      if (typeof prov.sendTransaction === "function") {
+        return String(await prov.sendTransaction(tx, conn, opts));
+      }
+      const signed = await prov.signTransaction(tx);
+      return conn.sendRawTransaction(signed.serialize(), opts);
+    },
+  };
+
+  prov.on?.("connect", emitFrom(w));
+  prov.on?.("disconnect", emitFrom(w));
+  prov.on?.("accountChanged", emitFrom(w));
+  return w;
+}
+
+function detectInjected() {
+  const win = window as any;
+  const candidates: Array<[string, string, any]> = [
+    ["phantom", "Phantom", win.phantom?.solana?.isPhantom ? win.phantom.solana : null],
+    ["solflare", "Solflare", win.solflare?.isSolflare ? win.solflare : null],
+    ["backpack", "Backpack", win.backpack?.isBackpack ? win.backpack : null],
+  ];
+  // Generic window.solana (older Phantom builds, Glow, Exodus, …)
+  const generic = win.solana;
+  if (generic && !candidates.some(([, , p]) => p === generic)) {
+    candidates.push(["solana", generic.isPhantom ? "Phantom" : "Browser wallet", generic]);
+  }
+
+  for (const [key, name, prov] of candidates) {
+    if (!prov || wallets.has(`injected:${key}`)) continue;
+    const taken = [...wallets.values()].some(
+      (w) => w.name.toLowerCase() === name.toLowerCase() || w.raw === prov
+    );
+    if (taken) continue;
+    wallets.set(`injected:${key}`, injectedAdapter(key, name, prov));
+  }
+}
+
+// -------------------- Public API --------------------
+export function initWallets() {
+  if (discovered) return;
+  discovered = true;
+
+  discoverStandard();
+  detectInjected();
+
+  // Extensions may inject late — look again for a few seconds, then try to restore
+  let tries = 0;
+  const t = setInterval(() => {
+    detectInjected();
+    if (++tries > 12) clearInterval(t);
+  }, 250);
+  setTimeout(restoreWallet, 400);
+}
+
+export function listWallets(): StonkyWallet[] {
+  return [...wallets.values()];
+}
+
+/** The wallet the user connected (null until they pick one). */
+export function getWallet(): StonkyWallet | null {
+  return active;
+}
+
+export function onWalletChange(fn: Listener) {
+  listeners.add(fn);
+  return () => listeners.delete(fn);
+}
+
+export async function connectWallet(id: string, silent = false): Promise<StonkyWallet> {
+  const w = wallets.get(id);
+  if (!w) throw new Error(`Wallet not found: ${id}`);
+  await w.connect(silent);
+  active = w;
+  try {
+    localStorage.setItem(STORE_KEY, id);
+  } catch {}
+  notify();
+  return w;
+}
+
+export async function disconnectWallet() {
+  const w = active;
+  active = null;
+  try {
+    localStorage.removeItem(STORE_KEY);
+  } catch {}
+  try {
+    await w?.disconnect();
+  } catch (e) {
+    console.warn("[Wallet] disconnect failed:", e);
+  }
+  notify();
+}
+
+async function restoreWallet() {
+  let id: string | null = null;
+  try {
+    id = localStorage.getItem(STORE_KEY);
+  } catch {}
+  if (!id || active || !wallets.has(id)) return;
+  try {
+    await connectWallet(id, true);
+  } catch {
+    /* not trusted yet — user will pick again */
+  }
+}
+
+/**
+ * Returns the connected wallet, opening the picker if nobody is connected yet.
+ * Resolves null if the user closes the picker.
+ */
+export async function requireWallet(): Promise<StonkyWallet | null> {
+  if (active?.publicKey) return active;
+  return openWalletPicker();
+}
+
+// -------------------- Picker UI --------------------
+const INSTALL_LINKS: Array<[string, string]> = [
+  ["Phantom", "https://phantom.app/"],
+  ["Solflare", "https://solflare.com/"],
+  ["Backpack", "https://backpack.app/"],
+];
+
+function escapeHtml(s: string) {
+  return String(s || "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c] as string));
+}
+
+function ensurePicker(): HTMLElement {
+  let el = document.getElementById(PICKER_ID);
+  if (el) return el;
+  el = document.createElement("div");
+  el.id = PICKER_ID;
+  el.className = "hidden fixed inset-0 z-50 bg-black/60 p-4";
+  el.innerHTML = `
+    <div class="glass max-w-sm mx-auto mt-20 rounded-2xl p-5 relative">
+      <button id="wallet-picker-close" class="absolute right-3 top-3 text-white/70 hover:text-white focus-glow">✕</button>
+      <h3 class="text-lg font-semibold mb-3">Connect a wallet</h3>
+      <div id="wallet-picker-list" class="grid gap-2"></div>
+    </div>`;
+  document.body.appendChild(el);
+  return el;
+}
+
+export function openWalletPicker(): Promise<StonkyWallet | null> {
+  detectInjected();
+  const root = ensurePicker();
+  const list = document.getElementById("wallet-picker-list")!;
+  const close = document.getElementById("wallet-picker-close") as HTMLButtonElement;
+
+  return new Promise((resolve) => {
+    const done = (w: StonkyWallet | null) => {
+      closeModal(PICKER_ID);
+      root.onclick = null;
+      close.onclick = null;
+      resolve(w);
+    };
+
+    const rows = listWallets();
+    const current = active?.publicKey?.toBase58();
+    list.innerHTML = [
+      current
+        ? `<div class="flex items-center justify-between rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm">
+             <span>${escapeHtml(active!.name)} · <span class="font-mono">${current.slice(0, 4)}…${current.slice(-4)}</span></span>
+             <button data-act="disconnect" class="px-2 py-1 rounded bg-white/10 border border-white/10 text-xs">Disconnect</button>
+           </div>`
+        : "",
+      ...rows.map(
+        (w) => `<button data-id="${escapeHtml(w.id)}" class="flex items-center gap-3 rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm hover:bg-white/15 transition focus-glow">
+            ${w.icon ? `<img src="${escapeHtml(w.icon)}" alt="" class="h-6 w-6 rounded" />` : `<span class="h-6 w-6 rounded bg-white/20"></span>`}
+            <span class="font-semibold">${escapeHtml(w.name)}</span>
+            ${active?.id === w.id ? `<span class="ml-auto text-xs text-[#14F195]">connected</span>` : ""}
+          </button>`
+      ),
+      rows.length
+        ? ""
+        : `<div class="text-xs text-white/70 mb-1">No Solana wallet detected. Install one:</div>
+           ${INSTALL_LINKS.map(
+             ([name, href]) =>
+               `<a href="${href}" target="_blank" rel="noopener" class="rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm hover:bg-white/15">${name}</a>`
+           ).join("")}`,
+    ].join("");
+
+    list.querySelectorAll<HTMLButtonElement>("button[data-id]").forEach((b) => {
+      b.onclick = async () => {
+        b.disabled = true;
+        try {
+          done(await connectWallet(b.dataset.id!));
+        } catch (e: any) {
+          b.disabled = false;
+          if (e?.code === 4001 || /reject/i.test(String(e?.message || e))) return; // user cancelled
+          console.warn("[Wallet] connect failed:", e);
+          showToast(`Couldn't connect ${wallets.get(b.dataset.id!)?.name || "wallet"}. Unlock it and try again.`, "error");
+        }
+      };
+    });
+    const disc = list.querySelector<HTMLButtonElement>('button[data-act="disconnect"]');
+    if (disc) {
+      disc.onclick = async () => {
+        await disconnectWallet();
+        done(null);
+      };
+    }
+
+    close.onclick = () => done(active);
+    root.onclick = (e) => {
+      if (e.target === root) done(active);
+    };
+    openModal(PICKER_ID);
+  });
+}
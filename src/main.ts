@@ -5,18 +5,28 @@ import "./polyfills";
 
 // App modules
 import { CONFIG } from "./components/config";
-import { initConnection } from "./components/solana";
+import { getCluster, initConnection, switchCluster } from "./components/solana";
+import { showToast } from "./components/toast";
+import { jupiterEndpoint, rpcStatus } from "./components/rpc";
+import { favoriteDomain } from "./components/sns";
 import { initTipJar } from "./components/tipjar";
+import { initDevnetTools } from "./components/faucet";
+import { initGoals } from "./components/goals";
+import { initLeaderboard } from "./components/leaderboard";
+import { initTipHistory } from "./components/history";
 import { initMemeGen, setMemeWatermark } from "./components/meme";
 import { initDiscoverFeed } from "./components/discover";
 import { initMemeLibrary } from "./components/library";
+import { initAdminPanel } from "./components/admin";
+import { getWallet, initWallets, onWalletChange } from "./components/wallet";
 
 // Expose typing for plugin script
 declare global {
   interface Window {
     Jupiter?: { init: (opts: any) => void };
-    solana?: any; // Phantom provider
+    solana?: any; // legacy injected provider (wallet.ts wraps it)
     __ENV__?: Record<string, string>;
+    __rpc?: typeof rpcStatus; // dev builds only
   }
 }
 
@@ -25,71 +35,39 @@ function shorten(pk: string) {
   return pk && pk.length > 10 ? `${pk.slice(0, 4)}…${pk.slice(-4)}` : pk;
 }
 
-async function withTimeout<T>(p: Promise<T>, ms = 2500): Promise<T> {
-  return await Promise.race([
-    p,
-    new Promise<T>((_, rej) => setTimeout(() => rej(new Error("timeout")), ms)),
-  ]);
-}
-
 // Emit wallet-state for other modules (library, etc.)
 function emitWalletChanged(pubkey: string | null, label: string | null) {
   window.dispatchEvent(new CustomEvent("stonky:walletChanged", { detail: { pubkey, label } }));
 }
 
-// Best-effort SNS reverse lookup (quietly falls back if anything fails)
+// Best-effort SNS reverse lookup: the wallet's favorite .sol domain, read on-chain (sns.ts)
 async function tryResolveSnsReverse(address: string): Promise<string | null> {
   if (!address) return null;
-
-  // Endpoint A: Bonfida SNS proxy
-  const endpointA = `https://sns-sdk-proxy.bonfida.com/resolve_reverse?address=${encodeURIComponent(address)}`;
-  // Endpoint B: alt reverse service (shape may vary; we just look for a .sol string)
-  const endpointB = `https://names.solana.com/v1/reverse/${encodeURIComponent(address)}`;
-
-  const tryOne = async (url: string) => {
-    const r = await withTimeout(fetch(url, { mode: "cors", credentials: "omit" }));
-    if (!r.ok) throw new Error(`bad ${r.status}`);
-    const j: any = await r.json().catch(() => ({}));
-    // Try a few likely shapes
-    const vals = [
-      j?.domain,
-      j?.reverse,
-      j?.name,
-      j?.result,
-      typeof j === "string" ? j : null,
-    ].filter(Boolean) as string[];
-    const hit = vals.find((s) => typeof s === "string" && s.toLowerCase().endsWith(".sol"));
-    return hit || null;
-  };
-
-  try {
-    const a = await tryOne(endpointA);
-    if (a) return a;
-  } catch {}
   try {
-    const b = await tryOne(endpointB);
-    if (b) return b;
-  } catch {}
-  return null;
+    return await favoriteDomain(address);
+  } catch (e) {
+    console.warn("[SNS] reverse lookup failed:", e);
+    return null;
+  }
 }
 
 function computeWalletLabelSync(): string {
   try {
-    const pk = window.solana?.publicKey?.toBase58?.() ?? "";
+    const pk = getWallet()?.publicKey?.toBase58() ?? "";
     return pk ? shorten(pk) : "";
   } catch {
     return "";
   }
 }
 
-// Hook Phantom events to keep the meme watermark + other modules synced with the user
+// Follow the connected wallet to keep the meme watermark + other modules synced with the user
 function initWalletWatermarkBinding() {
   // Default watermark (site owner) until a user connects
   setMemeWatermark(CONFIG.OWNER_SOL_DOMAIN || "");
   emitWalletChanged(null, null);
 
   const applyFromWallet = async () => {
-    const pk = window.solana?.publicKey?.toBase58?.();
+    const pk = getWallet()?.publicKey?.toBase58();
     if (!pk) {
       setMemeWatermark(CONFIG.OWNER_SOL_DOMAIN || "");
       emitWalletChanged(null, null);
@@ -108,62 +86,17 @@ function initWalletWatermarkBinding() {
     const label = e?.detail?.label;
     if (typeof label === "string" && label.trim()) {
       setMemeWatermark(label.trim());
-      const pk = window.solana?.publicKey?.toBase58?.() || null;
+      const pk = getWallet()?.publicKey?.toBase58() || null;
       emitWalletChanged(pk, label.trim());
     }
   });
 
-  const wireProvider = (prov: any) => {
-    if (!prov) return;
-
-    // If already connected on load
-    if (prov.isConnected && prov.publicKey) applyFromWallet();
-
-    // Phantom events
-    prov.on?.("connect", applyFromWallet);
-    prov.on?.("accountChanged", (pubkey: any) => {
-      if (pubkey) applyFromWallet();
-      else {
-        setMemeWatermark(CONFIG.OWNER_SOL_DOMAIN || "");
-        emitWalletChanged(null, null);
-      }
-    });
-    prov.on?.("disconnect", () => {
-      setMemeWatermark(CONFIG.OWNER_SOL_DOMAIN || "");
-      emitWalletChanged(null, null);
-    });
-  };
-
-  // Provider may inject late — poll briefly
-  if (window.solana) {
-    wireProvider(window.solana);
-  } else {
-    let tries = 0;
-    const t = setInterval(() => {
-      if (window.solana || tries++ > 40) {
-        clearInterval(t);
-        if (window.solana) wireProvider(window.solana);
-      }
-    }, 250);
-  }
-}
-
-// ---------- Pick a good RPC for Jupiter (runtime+build friendly) ----------
-function chooseJupiterEndpoint(): string | undefined {
-  const cluster = CONFIG.DEFAULT_CLUSTER; // "devnet" | "mainnet"
-  const list = cluster === "devnet" ? CONFIG.DEVNET_RPCS : CONFIG.MAINNET_RPCS;
-
-  // Filter out endpoints known to break in browsers (CORS / wrong product).
-  const filtered = list.filter((u) => {
-    const l = u.toLowerCase();
-    if (l.includes("solana.drpc.org")) return false;          // blocks custom header
-    if (l.includes("rpc.ankr.com/multichain")) return false;  // not a Solana JSON-RPC
-    return true;
+  // connect / disconnect / account switch on whichever wallet the user picked
+  onWalletChange(() => {
+    applyFromWallet();
+    syncJupiterWallet();
   });
-
-  // Prefer Helius if present (and you’ve allowed your production origin in Helius dashboard)
-  const helius = filtered.find((u) => u.includes("helius-rpc.com"));
-  return helius || filtered[0]; // If none, Jupiter will fall back internally if endpoint is undefined
+  if (getWallet()?.publicKey) applyFromWallet();
 }
 
 // ---------- Jupiter Plugin (integrated mode) ----------
@@ -177,9 +110,9 @@ function initJupiterPlugin() {
 
     // Label cluster in UI
     const lbl = document.getElementById("jup-cluster-label");
-    if (lbl) lbl.textContent = CONFIG.DEFAULT_CLUSTER;
+    if (lbl) lbl.textContent = getCluster();
 
-    const endpoint = chooseJupiterEndpoint();
+    const endpoint = jupiterEndpoint(); // shared pool: Helius unless it was rejected
 
     try {
       window.Jupiter.init({
@@ -188,8 +121,8 @@ function initJupiterPlugin() {
 
         // Quality-of-life opts
         defaultExplorer: "Solscan",
-        endpoint,                    // <- pulled from CONFIG (env or window.__ENV__)
-        passThroughWallet: window.solana ?? undefined, // reuse Phantom if connected
+        endpoint,                    // <- healthiest endpoint from rpc.ts
+        passThroughWallet: getWallet()?.raw ?? undefined, // reuse the connected wallet
       });
     } catch (e) {
       console.warn("[Jupiter] init failed:", e);
@@ -207,17 +140,55 @@ function initJupiterPlugin() {
   }
 }
 
+// ---------- Cluster pill (runtime devnet/mainnet switch) ----------
+function initClusterPill() {
+  const pill = document.getElementById("cluster-pill");
+  if (!pill) return;
+  const paint = () => {
+    const c = getCluster();
+    pill.textContent = c;
+    pill.title = `Switch to ${c === "devnet" ? "mainnet" : "devnet"}`;
+    pill.classList.toggle("text-yellow-300", c === "devnet");
+  };
+  pill.addEventListener("click", () => {
+    switchCluster(getCluster() === "devnet" ? "mainnet" : "devnet");
+  });
+  window.addEventListener("stonky:clusterChanged", () => {
+    paint();
+    initJupiterPlugin(); // re-mount with the new cluster's endpoint
+    showToast(`Switched to ${getCluster()}`, "success");
+  });
+  paint();
+}
+
+// Keep Jupiter's pass-through wallet in step with the picker
+function syncJupiterWallet() {
+  try {
+    (window.Jupiter as any)?.syncProps?.({ passThroughWallet: getWallet()?.raw ?? undefined });
+  } catch (e) {
+    console.warn("[Jupiter] syncProps failed:", e);
+  }
+}
+
 // ---------- Boot ----------
 document.addEventListener("DOMContentLoaded", () => {
   // Core features
-  initConnection();   // RPC pool + backoff (also reads CONFIG lists)
+  initConnection();   // shared RPC pool: health scores + failover (rpc.ts)
+  if (import.meta.env.DEV) window.__rpc = rpcStatus; // dev console: __rpc() → endpoint health
+  initWallets();      // Wallet Standard + injected providers
   initTipJar();       // Tip Jar + QR modal
+  initDevnetTools();  // devnet only: TEST MODE banner + faucet panel
+  initGoals();        // VITE_TIP_GOALS progress bars (on-chain totals)
+  initLeaderboard();  // top tippers (static leaderboard.json or client-side scan)
+  initTipHistory();   // full paginated history + CSV/JSON export
   initMemeGen();      // Meme Shrine
   initJupiterPlugin();
+  initClusterPill();  // devnet/mainnet switch (?cluster=…)
 
   // New: personal library + community feed (serverless)
   initMemeLibrary();
   initDiscoverFeed();
+  initAdminPanel();    // owner wallet only: hide posts / block authors (t:"mod" memos)
 
   // Bind watermark ↔ wallet (+ SNS reverse) + broadcast wallet changes
   initWalletWatermarkBinding();
@@ -0,0 +1,174 @@
+// test/feed-webhook.test.ts
+// Live-feed webhook against the Helius fixtures in scripts/fixtures/helius: auth, parsing,
+// applyTransactions (redelivery, rate limit over stored items) and the handler with memoryFeedStore().
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { describe, it } from "node:test";
+import {
+  applyTransactions,
+  authorized,
+  createFeedWebhookHandler,
+  feedEventsOf,
+  memoryFeedStore,
+} from "../netlify/functions/feed-webhook";
+import type { EnhancedTx, FeedStore, FeedWebhookDeps, LiveFeed } from "../netlify/functions/feed-webhook";
+import type { FeedPolicy } from "../src/components/feedpolicy";
+import type { FunctionEvent } from "../netlify/functions/tip-tx";
+
+const REGISTRY = "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9"; // also the owner
+const ALICE = "9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu";
+const CAROL = "EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1";
+const SECRET = "dev-secret";
+
+const fixture = (name: string): EnhancedTx[] =>
+  JSON.parse(fs.readFileSync(`scripts/fixtures/helius/${name}.json`, "utf8"));
+const [POST, LIKE, TIPS, IGNORED] = ["post", "like", "tips", "ignored"].map(fixture);
+const NOW = (Math.max(...[...POST, ...LIKE, ...TIPS].map((tx) => tx.timestamp)) + 60) * 1000;
+
+const policy = (over: Partial<FeedPolicy> = {}): FeedPolicy => ({
+  minPing: 1,
+  rateLimit: null,
+  blocklist: [],
+  allowedHosts: [],
+  ...over,
+});
+const rules = (over: Partial<FeedPolicy> = {}) => ({ registry: REGISTRY, owner: REGISTRY, policy: policy(over) });
+const emptyFeed = (): LiveFeed => ({ v: 1, updated: 0, items: [], tips: [], seen: [] });
+
+function handlerWith(store: FeedStore, over: Partial<FeedWebhookDeps> = {}) {
+  return createFeedWebhookHandler({ store: () => store, secret: SECRET, ...rules(), ...over });
+}
+
+const deliver = (txs: unknown, auth: string | null = SECRET): FunctionEvent => ({
+  httpMethod: "POST",
+  headers: auth === null ? {} : { Authorization: auth },
+  body: typeof txs === "string" ? txs : JSON.stringify(txs),
+});
+
+describe("authorized", () => {
+  it("accepts only the configured secret", () => {
+    assert.equal(authorized(SECRET, SECRET), true);
+    assert.equal(authorized("dev-secret2", SECRET), false);
+    assert.equal(authorized(undefined, SECRET), false);
+    assert.equal(authorized("", ""), false); // no secret configured → nothing passes
+  });
+});
+
+describe("feedEventsOf", () => {
+  it("parses a post and a like with its author tip", () => {
+    const [post] = feedEventsOf(POST[0], rules()).events;
+    assert.equal(post.type, "post");
+    assert.equal(post.author, ALICE);
+    assert.equal(post.sig, POST[0].signature);
+    const [like] = feedEventsOf(LIKE[0], rules()).events;
+    assert.equal(like.type, "like");
+    assert.equal(like.to, ALICE);
+    assert.equal(like.tipLamports, 45_000);
+  });
+
+  it("skips failed transactions and ones that don't touch the registry", () => {
+    for (const tx of [...IGNORED, ...TIPS]) assert.deepEqual(feedEventsOf(tx, rules()), { events: [], rejected: [] });
+  });
+
+  it("reports policy rejections", () => {
+    assert.equal(feedEventsOf(POST[0], rules({ blocklist: [ALICE] })).rejected.length, 1);
+    assert.deepEqual(feedEventsOf(POST[0], rules({ minPing: 2 })).events, []);
+    // Bob's like memo paid by Carol: the blocklist applies to who paid, so the memo's liker can't stand in
+    assert.deepEqual(feedEventsOf({ ...LIKE[0], feePayer: CAROL }, rules()), {
+      events: [],
+      rejected: ["like: liker is not the fee payer"],
+    });
+  });
+});
+
+describe("applyTransactions", () => {
+  it("adds posts, likes and tips once, ignoring redelivered signatures", () => {
+    const first = applyTransactions(emptyFeed(), [...LIKE, ...POST, ...TIPS, ...IGNORED], rules(), NOW);
+    assert.equal(first.added, 2);
+    assert.equal(first.tips, 2);
+    assert.deepEqual(first.feed.items.map((it) => it.type), ["post", "like"]); // slot order
+    assert.deepEqual(first.feed.tips.map((t) => [t.from, t.lamports]), [[CAROL, -10_000_000], [CAROL, 50_000_000]]);
+
+    const again = applyTransactions(first.feed, [...POST, ...LIKE, ...TIPS], rules(), NOW);
+    assert.deepEqual([again.added, again.tips, again.rejected], [0, 0, 0]);
+    assert.equal(again.feed.items.length, 2);
+    assert.equal(again.feed.tips.length, 2);
+  });
+
+  it("counts stored posts against the rate limit", () => {
+    const stored = { ...emptyFeed(), items: [{ type: "post" as const, author: ALICE, sig: "older", slot: 1, ts: POST[0].timestamp - 30 }] };
+    const limited = applyTransactions(stored, POST, rules({ rateLimit: { max: 1, windowSecs: 60 } }), NOW);
+    assert.deepEqual([limited.added, limited.rejected], [0, 1]);
+    const later = applyTransactions(stored, POST, rules({ rateLimit: { max: 1, windowSecs: 10 } }), NOW);
+    assert.deepEqual([later.added, later.rejected], [1, 0]);
+  });
+
+  it("keeps refunds only for tippers it has seen", () => {
+    const refundOnly = applyTransactions(emptyFeed(), [TIPS[1]], rules(), NOW);
+    assert.equal(refundOnly.tips, 0);
+  });
+});
+
+describe("feed webhook handler", () => {
+  it("rejects bad methods, credentials and bodies", async () => {
+    const handler = handlerWith(memoryFeedStore());
+    assert.equal((await handler({ httpMethod: "PUT" })).statusCode, 405);
+    assert.equal((await handler(deliver(POST, null))).statusCode, 401);
+    assert.equal((await handler(deliver(POST, "wrong"))).statusCode, 401);
+    assert.equal((await handler(deliver("{"))).statusCode, 400);
+    assert.equal((await handler(deliver({ not: "an array" }))).statusCode, 400);
+    assert.equal((await handlerWith(memoryFeedStore(), { secret: "" })(deliver(POST))).statusCode, 500);
+  });
+
+  it("stores deliveries and serves them without the redelivery guard", async () => {
+    const handler = handlerWith(memoryFeedStore());
+    const res = await handler({ ...deliver(POST), headers: { authorization: SECRET } }); // any header case
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(JSON.parse(res.body), { added: 1, tips: 0, rejected: 0 });
+    assert.deepEqual(JSON.parse((await handler(deliver(POST))).body), { added: 0, tips: 0, rejected: 0 });
+
+    const get = await handler({ httpMethod: "GET" });
+    const feed = JSON.parse(get.body);
+    assert.equal(get.statusCode, 200);
+    assert.equal(feed.items.length, 1);
+    assert.equal("seen" in feed, false);
+  });
+
+  it("retries on an ETag conflict instead of overwriting the other delivery", async () => {
+    const base = memoryFeedStore();
+    let raced = false;
+    const racing: FeedStore = {
+      read: () => base.read(),
+      async write(feed, etag) {
+        if (!raced) {
+          raced = true; // another delivery lands between this one's read and write
+          const cur = await base.read();
+          await base.write(applyTransactions(cur?.feed ?? emptyFeed(), LIKE, rules()).feed, cur?.etag);
+        }
+        return base.write(feed, etag);
+      },
+    };
+    const res = await handlerWith(racing)(deliver(POST));
+    assert.equal(res.statusCode, 200);
+    const stored = (await base.read())!.feed;
+    assert.deepEqual(stored.items.map((it) => it.type).sort(), ["like", "post"]);
+    assert.deepEqual(stored.seen.sort(), [LIKE[0].signature, POST[0].signature].sort());
+  });
+
+  it("answers 503 when the store fails", async () => {
+    const broken: FeedStore = {
+      read: async () => {
+        throw new Error("down");
+      },
+      write: async () => false,
+    };
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      assert.equal((await handlerWith(broken)(deliver(POST))).statusCode, 503);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
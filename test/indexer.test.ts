@@ -0,0 +1,262 @@
+// test/indexer.test.ts
+// Feed indexer steps against the recorded RPC responses in scripts/indexer/fixtures: memo
+// validation, the feed and leaderboard output, and resuming from a saved state after a stop or crash.
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import type { FeedPolicy } from "../src/components/feedpolicy";
+import { migrateFeedState, runFeed } from "../scripts/indexer/feed";
+import type { IndexFile, StepContext } from "../scripts/indexer/feed";
+import { initialLeaderboardState, runLeaderboard } from "../scripts/indexer/leaderboard";
+import { feedEventsOf } from "../scripts/indexer/memo";
+import type { FeedRules } from "../scripts/indexer/memo";
+import { fixtureRpc } from "../scripts/indexer/rpc";
+import type { IndexerRpc } from "../scripts/indexer/rpc";
+import { readJson, writeJsonAtomic } from "../scripts/indexer/state";
+import type { FeedState, LeaderboardState } from "../scripts/indexer/state";
+
+const FIXTURES = "scripts/indexer/fixtures";
+const REGISTRY = "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9"; // also the owner
+const BOB = "GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse";
+const CAROL = "EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1";
+const POST4 = "557YbLrgVKeCcP7fbQ2c3R187zhZqFyc3kb3RFE4j1KcdUuYSrLaP5yZSAtocdpeLQv45VeGkxkRS5DrgNAtStEp";
+const HIDE_POST4 = "1s3XeLDmMhQm7LMHUHbti4AB6FPmhwPAQ8U7wo65ii4FyL58fYp1FoxYrfSaDUVbAvf5sr6nSSVeTfbQSPSUVhm";
+const NEWEST = "4XyeYmVSZvZhuVaodi2uKaGvqtgzWq6DTvWfxZfsFC5PW9kW85fRNedDX3N5XrPsUxcDszhag8BjjSMxqB3yMUQB";
+
+const POLICY: FeedPolicy = { minPing: 1, rateLimit: null, blocklist: [], allowedHosts: [] };
+const RULES: FeedRules = { registry: REGISTRY, moderator: REGISTRY, policy: POLICY };
+const REJECTED = {
+  "post: bad author": 1,
+  "post: author is not the fee payer": 1,
+  "post: ping below minimum": 1,
+  "mod: not the owner": 1,
+};
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-test-"));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+let trees = 0;
+const freshTree = () => path.join(root, `feed-${++trees}`);
+
+/** StepContext writing into `out`; `saved.state` is the state as of the last checkpoint. */
+function stepContext<S>(out: string, state: S, over: Partial<StepContext> = {}) {
+  const saved = { state: structuredClone(state) };
+  const ctx: StepContext = {
+    rpc: fixtureRpc(FIXTURES),
+    out,
+    maxTx: 500,
+    write: writeJsonAtomic,
+    checkpoint: () => {
+      saved.state = structuredClone(state);
+    },
+    ...over,
+  };
+  return { ctx, saved };
+}
+
+/** Every file the feed step wrote, minus the `updated` stamps. */
+function treeOf(out: string): Record<string, unknown> {
+  const files = ["index.json", "moderation.json", ...fs.readdirSync(path.join(out, "pages")).map((f) => `pages/${f}`)];
+  return Object.fromEntries(
+    files.map((f) => {
+      const { updated, ...data } = readJson<Record<string, unknown>>(path.join(out, f))!;
+      return [f, data];
+    })
+  );
+}
+
+/** Feed step re-run from each saved state, `maxTx` at a time, until nothing remains. */
+async function feedInSteps(out: string, maxTx: number, state: FeedState = { cursor: null, tally: {} }) {
+  for (;;) {
+    const { ctx, saved } = stepContext(out, state, { maxTx });
+    const report = await runFeed(ctx, RULES, state);
+    state = saved.state;
+    if (!report.remaining) return state;
+  }
+}
+
+/** fixtureRpc whose getTransaction fails from the `n`th call on. */
+function failingRpc(n: number): IndexerRpc {
+  const rpc = fixtureRpc(FIXTURES);
+  let calls = 0;
+  return {
+    signatures: rpc.signatures,
+    transaction: async (sig) => {
+      if (++calls >= n) throw new Error("connection reset");
+      return rpc.transaction(sig);
+    },
+  };
+}
+
+async function fullFeed() {
+  const out = freshTree();
+  const state: FeedState = { cursor: null, tally: {} };
+  const report = await runFeed(stepContext(out, state).ctx, RULES, state);
+  return { out, state, report };
+}
+
+describe("memo validation", () => {
+  const eventsOf = async (sig: string, rules = RULES) => {
+    const rpc = fixtureRpc(FIXTURES);
+    const s = (await rpc.signatures(REGISTRY, { limit: 1000 })).find((x) => x.signature === sig)!;
+    return feedEventsOf((await rpc.transaction(sig))!, s, rules);
+  };
+
+  it("reads posts and likes in every protocol version", async () => {
+    const post = await eventsOf("32acN4jvkNEGnU1QuTZx2U8BFLdxJMfJPtyVHsDnvGxgnC8Kn9gVd6TpbofWWjCuXiEZyesEaSgHs3njsZxr3tLk");
+    assert.deepEqual(post.events.map((e) => [e.type, "cid" in e && e.cid]), [["post", "bafyfixturepost1"]]);
+    const like = await eventsOf("33k8aLHMyRtJfT8Jpovwzm3euxSG5KZwKXffudwGN54QX8nsYpF3VQtnCc4ruRFKbTiGW5MsTtCYPQVPd92Gewim");
+    assert.deepEqual(like.events.map((e) => e.type === "like" && [e.c, e.tipLamports]), [[BOB, 45_000]]);
+  });
+
+  it("rejects invalid and forged memos with a reason", async () => {
+    const cases: [string, string][] = [
+      ["365AzsNERZCNRRN6fWewwLtcFC2sdFPDAo439BNDFfFr127y69N9E3khQCsZgoL9ixffYvM9EmF3S7th8H97s4Uo", "post: bad author"],
+      ["YFt1vQ41Ak59HpyBwR1gfTyBtSUB2Z47RfGPBf63zhz81DxAoP3Yzg7obpc15xQYxMH2Sd7CQCD4m6KoJGZR7FS", "post: author is not the fee payer"],
+      ["5kNWDXtMN4XpcK7KxBn5Cjs3XYshwLzP4JsczB3ahCdco7zo1fsEDcgcfsksBqU2CvUMP7dZdDj3bC8A6wMEg5eG", "post: ping below minimum"],
+      ["4XyeYmVSZvZhuVaodi2uKaGvqtgzWq6DTvWfxZfsFC5PW9kW85fRNedDX3N5XrPsUxcDszhag8BjjSMxqB3yMUQB", "mod: not the owner"],
+    ];
+    for (const [sig, reason] of cases) assert.deepEqual(await eventsOf(sig), { events: [], rejected: [reason] }, reason);
+  });
+
+  it("rejects a like paid by another wallet than its liker", async () => {
+    const rpc = fixtureRpc(FIXTURES);
+    const sig = "33k8aLHMyRtJfT8Jpovwzm3euxSG5KZwKXffudwGN54QX8nsYpF3VQtnCc4ruRFKbTiGW5MsTtCYPQVPd92Gewim";
+    const s = (await rpc.signatures(REGISTRY, { limit: 1000 })).find((x) => x.signature === sig)!;
+    const tx = structuredClone((await rpc.transaction(sig))!);
+    tx.transaction.message.accountKeys[0] = CAROL; // Bob's like memo, Carol paying
+    assert.deepEqual(feedEventsOf(tx, s, RULES), { events: [], rejected: ["like: liker is not the fee payer"] });
+  });
+
+  it("drops blocked wallets and skips failed transactions", async () => {
+    const blocked = { ...RULES, policy: { ...POLICY, blocklist: [BOB] } };
+    const like = await eventsOf("33k8aLHMyRtJfT8Jpovwzm3euxSG5KZwKXffudwGN54QX8nsYpF3VQtnCc4ruRFKbTiGW5MsTtCYPQVPd92Gewim", blocked);
+    assert.equal(like.events.length, 0);
+    assert.equal(like.rejected.length, 1);
+    const failed = await eventsOf("37EhD8ufecrQJQUzas1wudp5uoqBQDHr6RkDkx5ghTMZjxnWrovh6NBf11Gv5VNZni9N5Lqn8CmHxUbLsrCYU7rp");
+    assert.deepEqual(failed, { events: [], rejected: [] });
+  });
+});
+
+describe("runFeed", () => {
+  it("writes the page, the index and the moderation log", async () => {
+    const { out, state, report } = await fullFeed();
+    assert.deepEqual(
+      { processed: report.processed, remaining: report.remaining, posts: report.posts, likes: report.likes, mods: report.mods },
+      { processed: 17, remaining: 0, posts: 4, likes: 5, mods: 1 }
+    );
+    assert.deepEqual(report.rejected, REJECTED);
+
+    const index = readJson<IndexFile>(path.join(out, "index.json"))!;
+    assert.equal(index.latestPage, 1);
+    assert.equal(index.cursor, NEWEST);
+    assert.equal(state.cursor, NEWEST);
+    assert.deepEqual(index.moderation?.hidden, [POST4]);
+
+    const page = readJson<{ items: any[] }>(path.join(out, "pages", "page-0001.json"))!;
+    assert.equal(page.items.filter((it) => it.type === "post").length, 4);
+    assert.equal(page.items.length, 9);
+    assert.deepEqual(page.items.map((it) => it.slot), [...page.items.map((it) => it.slot)].sort((a, b) => a - b));
+    const post1 = page.items.find((it) => it.cid === "bafyfixturepost1");
+    assert.equal(post1.likes, state.tally.bafyfixturepost1.likes);
+    assert.ok(post1.likes > 0);
+
+    const log = readJson<any>(path.join(out, "moderation.json"));
+    assert.deepEqual(log.counts, REJECTED);
+    assert.deepEqual(log.actions.map((a: any) => [a.sig, a.act, a.target]), [[HIDE_POST4, "hide", POST4]]);
+  });
+
+  it("gives the same files when run --max-tx at a time", async () => {
+    const full = await fullFeed();
+    const out = freshTree();
+    const state = await feedInSteps(out, 4);
+    assert.deepEqual(treeOf(out), treeOf(full.out));
+    assert.deepEqual(state.tally, full.state.tally);
+  });
+
+  it("resumes from the saved state after a crash", async () => {
+    const full = await fullFeed();
+    const out = freshTree();
+    // the first run stops at --max-tx, the second dies halfway
+    const started: FeedState = { cursor: null, tally: {} };
+    const first = stepContext(out, started, { maxTx: 6 });
+    assert.equal((await runFeed(first.ctx, RULES, started)).remaining, 11);
+    const resumed = first.saved.state;
+    const { ctx, saved } = stepContext(out, resumed, { rpc: failingRpc(4) });
+    await assert.rejects(runFeed(ctx, RULES, resumed), /connection reset/);
+    assert.equal(saved.state.cursor, "38QDRQT6sgWSBPbtWDNwsvjZaRdVBBCV24SQNioA9FTHUuT4dUVExgccbogGUBQyrTd4bmLR1eHYUqHzdRFy5BEq"); // 6th oldest
+    const state = await feedInSteps(out, 500, saved.state);
+    assert.deepEqual(treeOf(out), treeOf(full.out));
+    assert.deepEqual(state.tally, full.state.tally);
+  });
+
+  it("doesn't append items or mod actions twice when the pages got ahead of the state", async () => {
+    const full = await fullFeed();
+    const out = freshTree();
+    const state: FeedState = { cursor: null, tally: {} };
+    const { ctx } = stepContext(out, state, {
+      checkpoint: () => {
+        throw new Error("killed"); // pages + index written, cursor not saved
+      },
+    });
+    await assert.rejects(runFeed(ctx, RULES, state), /killed/);
+    await feedInSteps(out, 500);
+    assert.deepEqual(treeOf(out), treeOf(full.out));
+
+    // a state whose log already has the hide action but whose cursor is before it
+    const lagging = { ...structuredClone(full.state), cursor: POST4 };
+    await feedInSteps(full.out, 500, lagging);
+    const log = readJson<any>(path.join(full.out, "moderation.json"));
+    assert.deepEqual(log.actions.map((a: any) => a.sig), [HIDE_POST4]);
+    assert.equal(readJson<{ items: unknown[] }>(path.join(full.out, "pages", "page-0001.json"))!.items.length, 9);
+  });
+});
+
+describe("migrateFeedState", () => {
+  it("rebuilds the cursor and tallies from the pages", async () => {
+    const { out, state } = await fullFeed();
+    const index = readJson<IndexFile>(path.join(out, "index.json"))!;
+    assert.deepEqual(migrateFeedState(out, index), { cursor: state.cursor, tally: state.tally });
+  });
+});
+
+describe("runLeaderboard", () => {
+  const fresh = () => initialLeaderboardState(REGISTRY, null);
+
+  it("ranks net plain-transfer tips, not pings or like fees", async () => {
+    const out = freshTree();
+    const state = fresh();
+    const report = await runLeaderboard(stepContext(out, state).ctx, state, "mainnet");
+    assert.deepEqual(report, { processed: 17, remaining: 0, events: 2, tippers: 1 });
+    const board = readJson<any>(path.join(out, "leaderboard.json"));
+    assert.equal(board.owner, REGISTRY);
+    assert.deepEqual(
+      board.allTime.map((e: any) => [e.address, e.lamports, e.tips]),
+      [[CAROL, 40_000_000, 1]]
+    );
+  });
+
+  it("resumes from the saved state with the same totals", async () => {
+    const full = fresh();
+    await runLeaderboard(stepContext(freshTree(), full).ctx, full, "mainnet");
+
+    let state: LeaderboardState = fresh();
+    const out = freshTree();
+    for (;;) {
+      const { ctx, saved } = stepContext(out, state, { maxTx: 5 });
+      const report = await runLeaderboard(ctx, state, "mainnet");
+      state = saved.state;
+      if (!report.remaining) break;
+    }
+    assert.deepEqual(state.totals, full.totals);
+    assert.equal(state.cursor, full.cursor);
+  });
+
+  it("starts over for another owner", () => {
+    const saved: LeaderboardState = { owner: CAROL, cursor: POST4, totals: { [BOB]: [1, 0, 1, 1, 1] }, recent: [] };
+    assert.equal(initialLeaderboardState(CAROL, saved), saved);
+    assert.deepEqual(initialLeaderboardState(REGISTRY, saved), fresh());
+  });
+});
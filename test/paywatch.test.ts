@@ -0,0 +1,120 @@
+// test/paywatch.test.ts
+// paysEnough(): the QR payment check, for plain tips and split-mode transaction requests
+// (SOL and token), against transactions in the RPC "json" shape; watchPayment() against
+// reference transactions served through the RPC pool.
+
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { Connection } from "@solana/web3.js";
+import { paysEnough, PaymentWatchError, watchPayment } from "../src/components/paywatch";
+import type { ExpectedPayment } from "../src/components/paywatch";
+import { SOL_TOKEN } from "../src/components/tokens";
+import type { TipToken } from "../src/components/tokens";
+
+const PAYER = "9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu";
+const OWNER = "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9";
+const ARTIST = "GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse";
+const REFERENCE = "EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1";
+const USDC: TipToken = { symbol: "USDC", mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6 };
+const SPLITS = [{ label: "Artist", address: ARTIST, percent: 20 }];
+
+/** SOL transfers from PAYER: lamports received per wallet. */
+function solTx(received: Record<string, number>, err: unknown = null) {
+  const keys = [PAYER, ...Object.keys(received)];
+  const pre = keys.map(() => 10_000_000_000);
+  const total = Object.values(received).reduce((a, b) => a + b, 0);
+  const post = keys.map((k, i) => (i === 0 ? pre[0] - total - 5000 : pre[i] + received[k]));
+  return {
+    meta: { err, preBalances: pre, postBalances: post, preTokenBalances: [], postTokenBalances: [] },
+    transaction: { message: { accountKeys: keys } },
+  };
+}
+
+/** Token transfers from PAYER: base units received per wallet (token accounts at index 1…). */
+function tokenTx(received: Record<string, bigint>, mint = USDC.mint!) {
+  const owners = Object.keys(received);
+  const balance = (owner: string, i: number, amount: bigint) => ({
+    accountIndex: i + 1,
+    mint,
+    owner,
+    uiTokenAmount: { amount: String(amount), decimals: 6 },
+  });
+  return {
+    meta: {
+      err: null,
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: owners.map((o, i) => balance(o, i, 1_000n)),
+      postTokenBalances: owners.map((o, i) => balance(o, i, 1_000n + received[o])),
+    },
+    transaction: { message: { accountKeys: [PAYER, ...owners] } },
+  };
+}
+
+const expect = (amount: number, token: TipToken, splits?: typeof SPLITS): ExpectedPayment => ({
+  recipient: OWNER,
+  amount,
+  token,
+  reference: REFERENCE,
+  splits,
+});
+
+describe("paysEnough", () => {
+  it("accepts a plain SOL tip of at least the amount", () => {
+    assert.equal(paysEnough(solTx({ [OWNER]: 500_000_000 }), expect(0.5, SOL_TOKEN)), true);
+    assert.equal(paysEnough(solTx({ [OWNER]: 499_999_999 }), expect(0.5, SOL_TOKEN)), false);
+    assert.equal(paysEnough(solTx({ [ARTIST]: 500_000_000 }), expect(0.5, SOL_TOKEN)), false);
+    assert.equal(paysEnough(solTx({ [OWNER]: 500_000_000 }, { InstructionError: [0, "x"] }), expect(0.5, SOL_TOKEN)), false);
+  });
+
+  it("accepts a split SOL tip that pays every share", () => {
+    const split = solTx({ [OWNER]: 800_000_000, [ARTIST]: 200_000_000 });
+    assert.equal(paysEnough(split, expect(1, SOL_TOKEN, SPLITS)), true);
+    // the same tx against the whole amount was the old false mismatch
+    assert.equal(paysEnough(split, expect(1, SOL_TOKEN)), false);
+    // a share missing or short
+    assert.equal(paysEnough(solTx({ [OWNER]: 800_000_000 }), expect(1, SOL_TOKEN, SPLITS)), false);
+    assert.equal(paysEnough(solTx({ [OWNER]: 800_000_000, [ARTIST]: 100_000_000 }), expect(1, SOL_TOKEN, SPLITS)), false);
+  });
+
+  it("accepts token tips per share", () => {
+    assert.equal(paysEnough(tokenTx({ [OWNER]: 2_500_000n }), expect(2.5, USDC)), true);
+    assert.equal(paysEnough(tokenTx({ [OWNER]: 2_000_000n, [ARTIST]: 500_000n }), expect(2.5, USDC, SPLITS)), true);
+    assert.equal(paysEnough(tokenTx({ [OWNER]: 2_000_000n, [ARTIST]: 500_000n }), expect(2.5, USDC)), false);
+    assert.equal(paysEnough(tokenTx({ [OWNER]: 2_500_000n }, "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"), expect(2.5, USDC)), false);
+  });
+});
+
+describe("watchPayment", () => {
+  // Reference transactions behind the shared RPC pool, oldest first
+  let landed: { sig: string; tx: unknown }[] = [];
+  const { getSignaturesForAddress, getTransaction } = Connection.prototype;
+  Connection.prototype.getSignaturesForAddress = async function () {
+    return [...landed].reverse().map(({ sig }) => ({ signature: sig, err: null })) as any;
+  };
+  Connection.prototype.getTransaction = async function (sig: string) {
+    return (landed.find((l) => l.sig === sig)?.tx ?? null) as any;
+  };
+  after(() => Object.assign(Connection.prototype, { getSignaturesForAddress, getTransaction }));
+
+  const fast = { timeoutMs: 200, intervalMs: 10 };
+
+  it("skips transactions that don't pay and waits for the real payment", async () => {
+    landed = [{ sig: "dust", tx: solTx({ [OWNER]: 1 }) }];
+    const watch = watchPayment(expect(0.5, SOL_TOKEN), fast);
+    setTimeout(() => landed.push({ sig: "paid", tx: solTx({ [OWNER]: 500_000_000 }) }), 50);
+    assert.equal(await watch, "paid");
+  });
+
+  it("reports a mismatch only when nothing valid arrives", async () => {
+    landed = [{ sig: "short", tx: solTx({ [OWNER]: 499_999_999 }) }];
+    await assert.rejects(watchPayment(expect(0.5, SOL_TOKEN), fast), (e: unknown) => {
+      assert.ok(e instanceof PaymentWatchError);
+      assert.equal(e.code, "mismatch");
+      assert.equal(e.sig, "short");
+      return true;
+    });
+    landed = [];
+    await assert.rejects(watchPayment(expect(0.5, SOL_TOKEN), fast), { code: "timeout" });
+  });
+});
@@ -0,0 +1,161 @@
+// test/sns.test.ts
+// On-chain SNS: name account derivation checked against known mainnet addresses (bonfida.sol,
+// dex.bonfida.sol), the account parsers against account data in the on-chain layouts, and
+// resolveDomain() for plain and tokenized domains against fixture accounts.
+
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import {
+  REVERSE_LOOKUP_CLASS,
+  SOL_TLD_AUTHORITY,
+  domainKey,
+  domainMintKey,
+  favoriteDomainKey,
+  nftRecordKey,
+  parseFavoriteDomain,
+  parseNameRegistry,
+  parseReverseName,
+  parseTokenAccount,
+  resolveDomain,
+  reverseKey,
+} from "../src/components/sns";
+
+const BONFIDA = "Crf8hzfthWGbGbLTVCiqRqV5MVnbpHB1L9KQMd6gsinb"; // bonfida.sol
+const DEX_BONFIDA = "HoFfFXqFHAC8RP3duuQNzag1ieUwJRBv1HtRNiWFq4Qu"; // dex.bonfida.sol
+const OWNER = "9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu";
+const HOLDER = "GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse";
+const TOKEN_ACCOUNT = "EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1";
+
+// name registry: parent (.sol TLD) + owner + class (default) + 8 bytes of data
+const DOMAIN_ACCOUNT =
+  "PVPCSzg2DtOBOiPfst/YIKtYIct5KaONLqqyUug4JZWBOXcOqH0XX1ajVGbDTH7My42KkbTuN6Jd9g9bj8mzlAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=";
+// reverse record of bonfida.sol: header (class = reverse lookup) + borsh "bonfida" + padding
+const REVERSE_ACCOUNT =
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAB5sWOSxtUooW88UPuaniDVu+obiWfPYqxZq9A72K0mOBwAAAGJvbmZpZGEAAAAAAA==";
+// favourite_domain record: tag + bonfida.sol name account
+const FAVORITE_ACCOUNT = "AbApIgAlSdcOwQ23hBihSUmdd1ENXMpBLf4r8haMtAB4";
+
+const bytes = (b64: string) => new Uint8Array(Buffer.from(b64, "base64"));
+
+/** Name registry of a .sol domain owned by `owner`, no data. */
+const registry = (owner: PublicKey) =>
+  Buffer.concat([SOL_TLD_AUTHORITY.toBuffer(), owner.toBuffer(), PublicKey.default.toBuffer()]);
+
+/** SPL token account (165 bytes) holding `amount` of `mint` for `owner`. */
+function tokenAccount(mint: PublicKey, owner: string, amount: bigint) {
+  const buf = Buffer.alloc(165);
+  mint.toBuffer().copy(buf, 0);
+  new PublicKey(owner).toBuffer().copy(buf, 32);
+  buf.writeBigUInt64LE(amount, 64);
+  return buf;
+}
+
+describe("sns derivation", () => {
+  it("derives domain name accounts", async () => {
+    for (const d of ["bonfida", "bonfida.sol", " Bonfida.SOL "]) {
+      assert.equal((await domainKey(d)).toBase58(), BONFIDA, d);
+    }
+    assert.equal((await domainKey("dex.bonfida.sol")).toBase58(), DEX_BONFIDA);
+  });
+
+  it("rejects malformed domains", async () => {
+    for (const d of ["", ".sol", "a..sol", "a.b.c.sol", ".bonfida"]) {
+      await assert.rejects(domainKey(d), /Invalid \.sol domain/, d);
+    }
+  });
+
+  it("derives reverse records, subdomains under their parent", async () => {
+    assert.equal((await reverseKey(new PublicKey(BONFIDA))).toBase58(), "DqgmWxe2PPrfy45Ja3UPyFGwcbRzkRuwXt3NyxjX8krg");
+    assert.equal(
+      (await reverseKey(new PublicKey(DEX_BONFIDA), new PublicKey(BONFIDA))).toBase58(),
+      "6tAdEpjsrzHuRqJW3XMXEV7DFyCWW4giW6mW4bgvhcYV"
+    );
+  });
+
+  it("derives the favourite_domain account of a wallet", () => {
+    const owner = new PublicKey("HKKp49qGWXd639QsuH7JiLijfVW5UtCVY4s1n2HANwEA");
+    assert.equal(favoriteDomainKey(owner).toBase58(), "CvPVErneDniggxaCNhkTB1C8BAmVZ5Te7bKWyyWxpuz");
+  });
+});
+
+describe("sns parsers", () => {
+  it("parses a name registry header", () => {
+    const reg = parseNameRegistry(bytes(DOMAIN_ACCOUNT));
+    assert.ok(reg.parentName.equals(SOL_TLD_AUTHORITY));
+    assert.equal(reg.owner.toBase58(), OWNER);
+    assert.ok(reg.nameClass.equals(PublicKey.default));
+    assert.equal(reg.data.length, 8);
+  });
+
+  it("parses a reverse record through its registry", () => {
+    const reg = parseNameRegistry(bytes(REVERSE_ACCOUNT));
+    assert.ok(reg.nameClass.equals(REVERSE_LOOKUP_CLASS));
+    assert.equal(parseReverseName(reg.data), "bonfida"); // trailing padding ignored
+  });
+
+  it("parses a favourite_domain record", () => {
+    assert.equal(parseFavoriteDomain(bytes(FAVORITE_ACCOUNT)).toBase58(), BONFIDA);
+  });
+
+  it("parses token accounts", () => {
+    const mint = domainMintKey(new PublicKey(BONFIDA));
+    const account = parseTokenAccount(tokenAccount(mint, HOLDER, 1n));
+    assert.ok(account.mint.equals(mint));
+    assert.equal(account.owner.toBase58(), HOLDER);
+    assert.equal(account.amount, 1n);
+    assert.throws(() => parseTokenAccount(new Uint8Array(71)), /too short/);
+  });
+
+  it("rejects short and truncated data", () => {
+    assert.throws(() => parseNameRegistry(bytes(DOMAIN_ACCOUNT).subarray(0, 95)), /too short/);
+    assert.throws(() => parseReverseName(new Uint8Array(3)), /too short/);
+    const reverse = parseNameRegistry(bytes(REVERSE_ACCOUNT)).data;
+    assert.throws(() => parseReverseName(reverse.subarray(0, 4 + 6)), /truncated/);
+    assert.throws(() => parseFavoriteDomain(bytes(FAVORITE_ACCOUNT).subarray(0, 32)), /too short/);
+  });
+});
+
+describe("resolveDomain", () => {
+  // Fixture chain state behind the shared RPC pool: account data by address, largest token accounts by mint
+  const accounts = new Map<string, Buffer>();
+  const largest = new Map<string, { address: PublicKey; amount: string }[]>();
+  const { getAccountInfo, getTokenLargestAccounts } = Connection.prototype;
+  Connection.prototype.getAccountInfo = async function (key: PublicKey) {
+    const data = accounts.get(key.toBase58());
+    return data ? ({ data, owner: PublicKey.default, lamports: 1, executable: false } as any) : null;
+  };
+  Connection.prototype.getTokenLargestAccounts = async function (mint: PublicKey) {
+    return { context: { slot: 1 }, value: largest.get(mint.toBase58()) || [] } as any;
+  };
+  after(() => Object.assign(Connection.prototype, { getAccountInfo, getTokenLargestAccounts }));
+
+  /** Registers `name`.sol as owned by `owner` (or tokenized, owned by its nft_record). */
+  async function register(name: string, owner?: PublicKey) {
+    const key = await domainKey(name);
+    accounts.set(key.toBase58(), registry(owner ?? nftRecordKey(key)));
+    return { key, mint: domainMintKey(key) };
+  }
+
+  it("returns the owner of a plain domain, null for an unregistered one", async () => {
+    await register("plain", new PublicKey(OWNER));
+    assert.equal(await resolveDomain("plain.sol"), OWNER);
+    assert.equal(await resolveDomain("nobody.sol"), null);
+  });
+
+  it("returns the NFT holder of a tokenized domain, not the tokenizer record", async () => {
+    const { mint } = await register("tokenized");
+    largest.set(mint.toBase58(), [{ address: new PublicKey(TOKEN_ACCOUNT), amount: "1" }]);
+    accounts.set(TOKEN_ACCOUNT, tokenAccount(mint, HOLDER, 1n));
+    assert.equal(await resolveDomain("tokenized.sol"), HOLDER);
+  });
+
+  it("refuses a tokenized domain whose NFT nobody holds", async () => {
+    const { mint } = await register("burned");
+    largest.set(mint.toBase58(), [{ address: new PublicKey(TOKEN_ACCOUNT), amount: "0" }]);
+    assert.equal(await resolveDomain("burned.sol"), null);
+    await register("unminted");
+    assert.equal(await resolveDomain("unminted.sol"), null);
+  });
+});
@@ -0,0 +1,171 @@
+// test/tip-tx.test.ts
+// Solana Pay transaction-request handler against a mocked RPC: GET / OPTIONS / POST, bad input,
+// SOL split builds and token builds (ATA creation), and the per-cluster RPC override.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PublicKey, SystemProgram, VersionedTransaction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { createTipTxHandler, rpcFor } from "../netlify/functions/tip-tx";
+import type { FunctionEvent } from "../netlify/functions/tip-tx";
+import type { Cluster } from "../src/components/config";
+import type { TipRpc } from "../src/components/tiptx";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, findAta } from "../src/components/tokens";
+
+const OWNER = "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9";
+const PAYER = "9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu";
+const ARTIST = "GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse";
+const MEMO = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+const USDC_DEVNET = "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU";
+const BLOCKHASH = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+/** Mocked RPC: every mint is classic Token; `atas` lists the token accounts that exist. */
+function mockRpc(atas: string[] = []) {
+  const clusters: Cluster[] = [];
+  const rpc = (cluster: Cluster): TipRpc => {
+    clusters.push(cluster);
+    const account = { owner: TOKEN_PROGRAM_ID, data: Buffer.alloc(0), lamports: 1, executable: false };
+    return {
+      getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 100 }),
+      getAccountInfo: async () => account,
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((k) => (atas.includes(k.toBase58()) ? account : null)),
+    } as unknown as TipRpc;
+  };
+  return { rpc, clusters };
+}
+
+function handlerWith(rpc: (cluster: Cluster) => TipRpc) {
+  return createTipTxHandler({
+    rpc,
+    recipient: OWNER,
+    splits: [{ label: "Artist", address: ARTIST, percent: 20 }],
+    label: "Tip Jar",
+    icon: "https://example.com/icon.svg",
+  });
+}
+
+const post = (query: Record<string, string>, body: unknown = { account: PAYER }): FunctionEvent => ({
+  httpMethod: "POST",
+  queryStringParameters: query,
+  body: JSON.stringify(body),
+});
+
+/** The instructions of a response transaction as { program, accounts, data }. */
+function instructionsOf(body: string) {
+  const tx = VersionedTransaction.deserialize(Buffer.from(JSON.parse(body).transaction, "base64"));
+  const keys = tx.message.staticAccountKeys.map((k) => k.toBase58());
+  assert.equal(tx.message.recentBlockhash, BLOCKHASH);
+  assert.equal(keys[0], PAYER);
+  return tx.message.compiledInstructions.map((ix) => ({
+    program: keys[ix.programIdIndex],
+    accounts: ix.accountKeyIndexes.map((i) => keys[i]),
+    data: Buffer.from(ix.data),
+  }));
+}
+
+const lamportsOf = (data: Buffer) => Number(data.readBigUInt64LE(4)); // SystemProgram.transfer: u32 2 + u64
+
+describe("tip-tx handler", () => {
+  it("answers OPTIONS and GET without touching the RPC", async () => {
+    const { rpc, clusters } = mockRpc();
+    const handler = handlerWith(rpc);
+    const options = await handler({ httpMethod: "OPTIONS" });
+    assert.equal(options.statusCode, 204);
+    assert.equal(options.headers?.["Access-Control-Allow-Origin"], "*");
+    const get = await handler({ httpMethod: "GET" });
+    assert.equal(get.statusCode, 200);
+    assert.deepEqual(JSON.parse(get.body), { label: "Tip Jar", icon: "https://example.com/icon.svg" });
+    assert.equal((await handler({ httpMethod: "PUT" })).statusCode, 405);
+    assert.deepEqual(clusters, []);
+  });
+
+  it("rejects bad accounts, amounts, tokens, recipients and references", async () => {
+    const handler = handlerWith(mockRpc().rpc);
+    const cases: [FunctionEvent, string][] = [
+      [post({ amount: "1" }, { account: "not-a-key" }), "Invalid account"],
+      [{ httpMethod: "POST", queryStringParameters: { amount: "1" }, body: "{" }, "Invalid account"],
+      [post({ amount: "0" }), "Invalid amount"],
+      [post({ amount: "abc" }), "Invalid amount"],
+      [post({ amount: "1", token: "DOGE" }), "Unsupported token"],
+      [post({ amount: "1", to: "nope" }), "Invalid recipient"],
+      [post({ amount: "1", reference: "nope" }), "Invalid reference"],
+    ];
+    for (const [event, message] of cases) {
+      const res = await handler(event);
+      assert.equal(res.statusCode, 400, message);
+      assert.equal(JSON.parse(res.body).message, message);
+    }
+  });
+
+  it("builds a SOL tip with memo and reference, base64-encoded body included", async () => {
+    const handler = handlerWith(mockRpc().rpc);
+    const reference = ARTIST;
+    const body = Buffer.from(JSON.stringify({ account: PAYER })).toString("base64");
+    const res = await handler({
+      httpMethod: "POST",
+      queryStringParameters: { amount: "0.5", handle: "alice", message: "gm", reference },
+      body,
+      isBase64Encoded: true,
+    });
+    assert.equal(res.statusCode, 200);
+    assert.equal(JSON.parse(res.body).message, "Tip 0.5 SOL to Tip Jar");
+    const [transfer, memo] = instructionsOf(res.body);
+    assert.equal(transfer.program, SystemProgram.programId.toBase58());
+    assert.deepEqual(transfer.accounts, [PAYER, OWNER, reference]);
+    assert.equal(lamportsOf(transfer.data), 500_000_000);
+    assert.equal(memo.program, MEMO);
+    assert.match(memo.data.toString("utf8"), /alice/);
+  });
+
+  it("splits a SOL tip with the collaborators, but not for ?to= recipients", async () => {
+    const handler = handlerWith(mockRpc().rpc);
+    const split = instructionsOf((await handler(post({ amount: "1", split: "1" }))).body);
+    assert.deepEqual(
+      split.map((ix) => [ix.accounts[1], lamportsOf(ix.data)]),
+      [[OWNER, 800_000_000], [ARTIST, 200_000_000]]
+    );
+
+    const res = await handler(post({ amount: "1", split: "1", to: ARTIST }));
+    assert.equal(JSON.parse(res.body).message, "Tip 1 SOL to GyGK…Udse");
+    const direct = instructionsOf(res.body);
+    assert.deepEqual(direct.map((ix) => [ix.accounts[1], lamportsOf(ix.data)]), [[ARTIST, 1_000_000_000]]);
+  });
+
+  it("builds a devnet token tip on the devnet RPC and creates missing token accounts", async () => {
+    const mint = new PublicKey(USDC_DEVNET);
+    const source = findAta(new PublicKey(PAYER), mint, TOKEN_PROGRAM_ID).toBase58();
+    const ownerAta = findAta(new PublicKey(OWNER), mint, TOKEN_PROGRAM_ID).toBase58();
+    const artistAta = findAta(new PublicKey(ARTIST), mint, TOKEN_PROGRAM_ID).toBase58();
+    const { rpc, clusters } = mockRpc([source, ownerAta]);
+    const handler = handlerWith(rpc);
+
+    const res = await handler(post({ amount: "2.5", token: "USDC", cluster: "devnet", split: "1" }));
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(clusters, ["devnet"]);
+    const ixs = instructionsOf(res.body);
+    assert.deepEqual(ixs.map((ix) => ix.program), [
+      ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+      TOKEN_PROGRAM_ID.toBase58(),
+      TOKEN_PROGRAM_ID.toBase58(),
+    ]);
+    assert.equal(ixs[0].accounts[1], artistAta); // only the missing account is created
+    const transfers = ixs.slice(1).map((ix) => [ix.accounts[2], Number(ix.data.readBigUInt64LE(1)), ix.data[9]]);
+    assert.deepEqual(transfers, [[ownerAta, 2_000_000, 6], [artistAta, 500_000, 6]]);
+  });
+
+  it("reports builder errors as 400s", async () => {
+    const handler = handlerWith(mockRpc([]).rpc); // no source token account
+    const res = await handler(post({ amount: "1", token: "USDC" }));
+    assert.equal(res.statusCode, 400);
+    assert.equal(JSON.parse(res.body).message, "No USDC balance in this wallet.");
+  });
+});
+
+describe("rpcFor", () => {
+  it("applies each override to its own cluster only", () => {
+    const env = { TIP_TX_RPC_URL: "https://main.example", TIP_TX_RPC_URL_DEVNET: "https://dev.example" };
+    assert.equal(rpcFor("mainnet", env), "https://main.example");
+    assert.equal(rpcFor("devnet", env), "https://dev.example");
+    assert.notEqual(rpcFor("devnet", { TIP_TX_RPC_URL: "https://main.example" }), "https://main.example");
+  });
+});
@@ -0,0 +1,104 @@
+// test/tipevents.test.ts
+// The shared leaderboard tip rule: plain transfers only, no feed transactions, refunds only to
+// earlier tippers; plus the RPC-shape adapter and aggregate().
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import bs58 from "bs58";
+import { aggregate } from "../src/components/leaderboard";
+import { tipEventsOf, tipTxOf } from "../src/components/tipevents";
+import type { TipEvent, TipInstruction, TipTx } from "../src/components/tipevents";
+
+const OWNER = "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9";
+const ALICE = "9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu";
+const BOB = "GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse";
+const SYSTEM = "11111111111111111111111111111111";
+const MEMO = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+
+function transfer(from: string, to: string, lamports: number, kind = 2): TipInstruction {
+  const data = new Uint8Array(12);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, kind, true);
+  view.setBigUint64(4, BigInt(lamports), true);
+  return { programId: SYSTEM, accounts: [from, to], data: bs58.encode(data) };
+}
+
+const memo = (text: string): TipInstruction => ({ programId: MEMO, accounts: [], data: new TextEncoder().encode(text) });
+
+let n = 0;
+const tx = (...instructions: TipInstruction[]): TipTx => ({ sig: `sig${++n}`, ts: 1_000 + n, failed: false, instructions });
+
+describe("tipEventsOf", () => {
+  it("counts plain transfers into the owner, tip memos included", () => {
+    const events = tipEventsOf(tx(transfer(ALICE, OWNER, 50_000), memo("from: @alice | gm")), OWNER, new Set());
+    assert.deepEqual(events.map((e) => [e.from, e.lamports]), [[ALICE, 50_000]]);
+  });
+
+  it("ignores feed transactions, other instructions, failures and self-transfers", () => {
+    const post = JSON.stringify({ v: 1, t: "post", url: "https://example.com/a.png", author: ALICE });
+    const cases = [
+      tx(transfer(ALICE, OWNER, 1), memo(post)),
+      tx(transfer(ALICE, OWNER, 5_000), memo(`LIKE:${"a".repeat(20)}`)),
+      tx(transfer(ALICE, OWNER, 5_000, 3)), // not a Transfer
+      tx({ programId: "Vote111111111111111111111111111111111111111", accounts: [ALICE, OWNER], data: "" }),
+      { ...tx(transfer(ALICE, OWNER, 5_000)), failed: true },
+      tx(transfer(OWNER, OWNER, 5_000)),
+    ];
+    for (const t of cases) assert.deepEqual(tipEventsOf(t, OWNER, new Set()), [], t.sig);
+  });
+
+  it("treats owner transfers as refunds only to earlier tippers", () => {
+    const tipped = new Set<string>();
+    assert.deepEqual(tipEventsOf(tx(transfer(OWNER, ALICE, 1_000)), OWNER, tipped), []); // not a tipper yet
+    tipEventsOf(tx(transfer(ALICE, OWNER, 5_000)), OWNER, tipped);
+    const refund = tipEventsOf(tx(transfer(OWNER, ALICE, 1_000), transfer(OWNER, BOB, 2_000)), OWNER, tipped);
+    assert.deepEqual(refund.map((e) => [e.from, e.lamports]), [[ALICE, -1_000]]);
+  });
+});
+
+describe("tipTxOf", () => {
+  const keys = [ALICE, OWNER, SYSTEM, MEMO];
+  const data = (ix: TipInstruction) => ix.data as string;
+
+  it("reads raw RPC json (base58 data, account indexes)", () => {
+    const raw = {
+      blockTime: 1_700_000_000,
+      meta: { err: null },
+      transaction: {
+        message: {
+          accountKeys: keys,
+          instructions: [{ programIdIndex: 2, accounts: [0, 1], data: data(transfer(ALICE, OWNER, 7_000)) }],
+        },
+      },
+    };
+    const t = tipTxOf(raw, keys, "rawsig");
+    assert.deepEqual(t, { sig: "rawsig", ts: 1_700_000_000, failed: false, instructions: [transfer(ALICE, OWNER, 7_000)] });
+    assert.deepEqual(tipEventsOf(t, OWNER, new Set()).map((e) => e.lamports), [7_000]);
+  });
+
+  it("reads web3.js transactions (compiled instructions, byte data)", () => {
+    const tx = {
+      blockTime: 5,
+      meta: { err: { InstructionError: [0, "x"] } },
+      transaction: {
+        message: {
+          compiledInstructions: [{ programIdIndex: 2, accountKeyIndexes: [1, 0], data: bs58.decode(data(transfer(OWNER, ALICE, 1))) }],
+        },
+      },
+    };
+    const t = tipTxOf(tx, keys, "web3sig");
+    assert.equal(t.failed, true);
+    assert.deepEqual(t.instructions[0].accounts, [OWNER, ALICE]);
+    assert.deepEqual(tipEventsOf({ ...t, failed: false }, OWNER, new Set([ALICE])).map((e) => [e.from, e.lamports]), [[ALICE, -1]]);
+  });
+});
+
+describe("aggregate", () => {
+  const ev = (from: string, lamports: number, ts: number): TipEvent => ({ from, lamports, ts, sig: `${from}${ts}` });
+
+  it("nets refunds per tipper, floors at zero and shares ranks", () => {
+    const board = aggregate([ev(ALICE, 5_000, 1), ev(BOB, 3_000, 2), ev(ALICE, -2_000, 3), ev(OWNER, 1_000, 4), ev(OWNER, -9_000, 5)]);
+    assert.deepEqual(board.map((e) => [e.address, e.lamports, e.rank]), [[ALICE, 3_000, 1], [BOB, 3_000, 1]]);
+    assert.deepEqual(aggregate([ev(ALICE, 5_000, 1), ev(BOB, 1_000, 10)], 5).map((e) => e.address), [BOB]);
+  });
+});